@@ -21,85 +21,82 @@
  */
 
 import type { AuthConfig, VlibeUser, VerifyResponse } from './types';
-
-const DEFAULT_BASE_URL = 'https://vlibe.app';
-
-/**
- * Get the base URL from environment or config
- */
-function resolveBaseUrl(configBaseUrl?: string): string {
-  if (configBaseUrl) return configBaseUrl;
-  if (typeof process !== 'undefined' && process.env) {
-    if (process.env.VLIBE_BASE_URL) return process.env.VLIBE_BASE_URL;
-    if (process.env.NEXT_PUBLIC_VLIBE_BASE_URL) return process.env.NEXT_PUBLIC_VLIBE_BASE_URL;
-  }
-  return DEFAULT_BASE_URL;
-}
+import { VlibeAuthError, VlibeValidationError } from './errors';
+import { VlibeBaseTransport, resolveBaseUrl } from './VlibeBaseTransport';
 
 export class VlibeBaseAuth {
   private appId: string;
   private appSecret: string;
   private baseUrl: string;
+  private transport: VlibeBaseTransport;
 
   /**
    * Create a new VlibeBaseAuth instance
    *
    * @param config - Authentication configuration
-   * @throws Error if appId or appSecret is missing
+   * @throws VlibeValidationError if appId or appSecret is missing
    */
   constructor(config: AuthConfig) {
     if (!config.appId) {
-      throw new Error('VlibeBaseAuth: appId is required');
+      throw new VlibeValidationError('VlibeBaseAuth: appId is required', [
+        { field: 'appId', message: 'appId is required' },
+      ]);
     }
     if (!config.appSecret) {
-      throw new Error('VlibeBaseAuth: appSecret is required');
+      throw new VlibeValidationError('VlibeBaseAuth: appSecret is required', [
+        { field: 'appSecret', message: 'appSecret is required' },
+      ]);
     }
 
     this.appId = config.appId;
     this.appSecret = config.appSecret;
     this.baseUrl = resolveBaseUrl(config.baseUrl);
+    this.transport = config.transport || new VlibeBaseTransport();
   }
 
   /**
    * Verify a session token and get user information
    *
    * @param token - The session token from the SSO callback
-   * @returns The user object if valid, null otherwise
+   * @returns The user object if valid, null if the token is invalid or expired
+   * @throws VlibeNetworkError if the Vlibe API could not be reached
+   * @throws VlibeApiError if the Vlibe API returned a server error
    */
   async verifySession(token: string): Promise<VlibeUser | null> {
     if (!token) {
       return null;
     }
 
+    const endpoint = '/api/auth/sso/verify';
+
+    let data: VerifyResponse;
     try {
-      const response = await fetch(`${this.baseUrl}/api/auth/sso/verify`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      data = await this.transport.request<VerifyResponse>(
+        `${this.baseUrl}${endpoint}`,
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            token,
+            appId: this.appId,
+            appSecret: this.appSecret,
+            appType: 'base', // Indicate this is a Base app
+          }),
         },
-        body: JSON.stringify({
-          token,
-          appId: this.appId,
-          appSecret: this.appSecret,
-          appType: 'base', // Indicate this is a Base app
-        }),
-      });
-
-      if (!response.ok) {
+        { endpoint, fallbackMessage: 'VlibeBaseAuth: Failed to verify session' }
+      );
+    } catch (error) {
+      // A rejected token is an expected outcome, not an error
+      if (error instanceof VlibeAuthError || error instanceof VlibeValidationError) {
         return null;
       }
+      throw error;
+    }
 
-      const data = (await response.json()) as VerifyResponse;
-
-      if (data.valid && data.user) {
-        return data.user;
-      }
-
-      return null;
-    } catch (error) {
-      console.error('VlibeBaseAuth: Failed to verify session:', error);
-      return null;
+    if (data?.valid && data.user) {
+      return data.user;
     }
+
+    return null;
   }
 
   /**
@@ -0,0 +1,261 @@
+/**
+ * VlibeBaseChannel - Presence and broadcast for collaborative features
+ *
+ * A named realtime channel for "who is online" and ephemeral messages such
+ * as cursors or typing indicators. Nothing sent on a channel is stored in
+ * the database.
+ *
+ * @example
+ * ```typescript
+ * const room = db.channel('doc:42');
+ *
+ * await room.track(user, { cursor: null });
+ * room.onPresence('join', (member) => console.log(`${member.name} joined`));
+ * room.onPresence('leave', (member) => console.log(`${member.name} left`));
+ *
+ * room.on<{ x: number; y: number }>('cursor', (position) => drawCursor(position));
+ * await room.send('cursor', { x: 10, y: 20 });
+ *
+ * room.close();
+ * ```
+ */
+
+import type { PresenceMember, RealtimeStatus, VlibeUser } from './types';
+import { VlibeError } from './errors';
+
+/**
+ * Callbacks a channel connection reports to
+ */
+export interface ChannelConnectionHandlers {
+  /** Every tracked presence on the channel, one per connected client */
+  onPresence: (presences: PresenceMember[]) => void;
+  onBroadcast: (event: string, payload: unknown) => void;
+  onStatus: (status: 'open' | 'closed' | 'error', error?: Error) => void;
+}
+
+/**
+ * Connection a channel runs on: Supabase realtime or the local backend
+ */
+export interface ChannelConnection {
+  track: (member: PresenceMember) => Promise<void>;
+  untrack: () => Promise<void>;
+  send: (event: string, payload: unknown) => Promise<void>;
+  close: () => void;
+}
+
+type PresenceCallback<M> = (members: PresenceMember<M>[]) => void;
+type MemberCallback<M> = (member: PresenceMember<M>) => void;
+
+/**
+ * Keep one entry per user, preferring the most recently tracked presence
+ */
+function dedupeByUser<M>(presences: PresenceMember<M>[]): PresenceMember<M>[] {
+  const byUser = new Map<string, PresenceMember<M>>();
+  for (const presence of presences) {
+    const existing = byUser.get(presence.userId);
+    if (!existing || presence.onlineAt > existing.onlineAt) {
+      byUser.set(presence.userId, presence);
+    }
+  }
+  return [...byUser.values()];
+}
+
+export class VlibeBaseChannel<M extends Record<string, unknown> = Record<string, unknown>> {
+  readonly name: string;
+  private connection: ChannelConnection;
+  private release: () => void;
+  private members: PresenceMember<M>[] = [];
+  private tracked: PresenceMember<M> | null = null;
+  private currentStatus: RealtimeStatus = 'connecting';
+  private broadcastListeners: Map<string, Set<(payload: unknown) => void>> = new Map();
+  private syncListeners: Set<PresenceCallback<M>> = new Set();
+  private joinListeners: Set<MemberCallback<M>> = new Set();
+  private leaveListeners: Set<MemberCallback<M>> = new Set();
+  private statusListeners: Set<(status: RealtimeStatus, error?: Error) => void> = new Set();
+
+  /**
+   * Created by `db.channel()`; not meant to be constructed directly
+   *
+   * @param connect - Opens the underlying connection
+   * @param release - Called by `close()`
+   */
+  constructor(
+    name: string,
+    connect: (handlers: ChannelConnectionHandlers) => ChannelConnection,
+    release: () => void
+  ) {
+    this.name = name;
+    this.release = release;
+    this.connection = connect({
+      // Members' state comes from other clients and is trusted to match M
+      onPresence: (presences) => this.handlePresence(presences as PresenceMember<M>[]),
+      onBroadcast: (event, payload) => {
+        for (const listener of [...(this.broadcastListeners.get(event) || [])]) {
+          listener(payload);
+        }
+      },
+      onStatus: (status, error) => {
+        this.currentStatus = status;
+        for (const listener of [...this.statusListeners]) {
+          listener(status, error);
+        }
+      },
+    });
+  }
+
+  /**
+   * Current connection status
+   */
+  get status(): RealtimeStatus {
+    return this.currentStatus;
+  }
+
+  /**
+   * Members currently present, one per user
+   */
+  getMembers(): PresenceMember<M>[] {
+    return [...this.members];
+  }
+
+  /**
+   * Announce this client as present
+   *
+   * Calling it again replaces the tracked user and state.
+   *
+   * @param user - The signed-in user, e.g. from `auth.verifySession()`
+   * @param meta - Custom state shared with other members
+   */
+  async track(user: Pick<VlibeUser, 'id' | 'name' | 'avatarUrl'>, meta?: M): Promise<void> {
+    this.tracked = {
+      userId: user.id,
+      name: user.name,
+      avatarUrl: user.avatarUrl,
+      meta: meta ?? ({} as M),
+      onlineAt: new Date().toISOString(),
+    };
+    await this.connection.track(this.tracked);
+  }
+
+  /**
+   * Replace the custom state of the tracked presence
+   *
+   * @throws VlibeError if `track()` has not been called
+   */
+  async updatePresence(meta: M): Promise<void> {
+    if (!this.tracked) {
+      throw new VlibeError(`Call track() before updatePresence() on channel ${this.name}`);
+    }
+    this.tracked = { ...this.tracked, meta };
+    await this.connection.track(this.tracked);
+  }
+
+  /**
+   * Stop announcing this client as present
+   */
+  async untrack(): Promise<void> {
+    this.tracked = null;
+    await this.connection.untrack();
+  }
+
+  /**
+   * Listen to presence changes
+   *
+   * `sync` receives every member after each change; `join` and `leave`
+   * receive a user whose first client arrived or whose last client left.
+   *
+   * @returns A function that removes the listener
+   */
+  onPresence(event: 'sync', callback: PresenceCallback<M>): () => void;
+  onPresence(event: 'join' | 'leave', callback: MemberCallback<M>): () => void;
+  onPresence(
+    event: 'sync' | 'join' | 'leave',
+    callback: PresenceCallback<M> | MemberCallback<M>
+  ): () => void {
+    const listeners = (
+      event === 'sync' ? this.syncListeners : event === 'join' ? this.joinListeners : this.leaveListeners
+    ) as Set<typeof callback>;
+    listeners.add(callback);
+    return () => {
+      listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Send an ephemeral message to the other clients on the channel
+   */
+  async send<P = unknown>(event: string, payload: P): Promise<void> {
+    await this.connection.send(event, payload);
+  }
+
+  /**
+   * Listen to broadcast messages
+   *
+   * @returns A function that removes the listener
+   */
+  on<P = unknown>(event: string, callback: (payload: P) => void): () => void {
+    if (!this.broadcastListeners.has(event)) this.broadcastListeners.set(event, new Set());
+    const listeners = this.broadcastListeners.get(event)!;
+    const listener = callback as (payload: unknown) => void;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen to connection status changes
+   *
+   * @returns A function that removes the listener
+   */
+  onStatusChange(callback: (status: RealtimeStatus, error?: Error) => void): () => void {
+    this.statusListeners.add(callback);
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Release this handle
+   *
+   * `db.channel()` returns the same channel for the same name; the
+   * connection closes once every caller has called `close()`.
+   */
+  close(): void {
+    this.release();
+  }
+
+  /**
+   * Close the connection and drop all listeners
+   *
+   * Called by the database client when the last handle is released.
+   */
+  disconnect(): void {
+    this.connection.close();
+    this.broadcastListeners.clear();
+    this.syncListeners.clear();
+    this.joinListeners.clear();
+    this.leaveListeners.clear();
+    this.statusListeners.clear();
+    this.members = [];
+    this.tracked = null;
+  }
+
+  private handlePresence(presences: PresenceMember<M>[]): void {
+    const previous = new Map(this.members.map((member) => [member.userId, member]));
+    const next = dedupeByUser(presences);
+    const nextIds = new Set(next.map((member) => member.userId));
+    this.members = next;
+
+    for (const member of next) {
+      if (!previous.has(member.userId)) {
+        for (const listener of [...this.joinListeners]) listener(member);
+      }
+    }
+    for (const member of previous.values()) {
+      if (!nextIds.has(member.userId)) {
+        for (const listener of [...this.leaveListeners]) listener(member);
+      }
+    }
+    for (const listener of [...this.syncListeners]) listener(this.getMembers());
+  }
+}
@@ -0,0 +1,213 @@
+import type { VlibeBaseDatabase } from './VlibeBaseDatabase';
+import type {
+  BaseRecord,
+  DatabaseSchema,
+  QueryOptions,
+  AggregateOptions,
+  AggregateRow,
+  SearchOptions,
+  SearchHit,
+  ExportOptions,
+  ImportOptions,
+  ImportResult,
+  GetOptions,
+  CountOptions,
+  CursorQueryOptions,
+  CursorPage,
+  IterateOptions,
+  WhereClause,
+  BulkResult,
+  RequestOptions,
+  RealtimePayload,
+  Subscription,
+  SubscribeOptions,
+} from './types';
+import type { ImportSource } from './transfer';
+
+/**
+ * VlibeBaseCollection - Typed handle for a single collection
+ *
+ * Returned by `db.collection(name)`. Record and insert types are inferred
+ * from the schema passed to `VlibeBaseDatabase`, and every write is
+ * validated against the column definitions before it is sent.
+ *
+ * @example
+ * ```typescript
+ * const todos = db.collection('todos');
+ * const todo = await todos.insert({ title: 'Write docs' });
+ * const open = await todos.query({ where: { completed: false } });
+ * ```
+ */
+export class VlibeBaseCollection<
+  T extends BaseRecord,
+  I = Partial<T>,
+  S extends DatabaseSchema = DatabaseSchema
+> {
+  constructor(
+    private db: VlibeBaseDatabase<S>,
+    readonly name: string
+  ) {}
+
+  /**
+   * Insert a document
+   */
+  async insert(data: I, requestOptions?: RequestOptions): Promise<T> {
+    return await this.db.insert<T>(this.name, data as Partial<T>, requestOptions);
+  }
+
+  /**
+   * Insert many documents in a single request
+   */
+  async insertMany(rows: I[], requestOptions?: RequestOptions): Promise<BulkResult<T>> {
+    return await this.db.insertMany<T>(this.name, rows as Partial<T>[], requestOptions);
+  }
+
+  /**
+   * Query documents
+   */
+  async query<K extends keyof T & string>(
+    options: QueryOptions<T> & { select: K[] }
+  ): Promise<Pick<T, K | 'id'>[]>;
+  async query(options?: QueryOptions<T>): Promise<T[]>;
+  async query(options: QueryOptions<T> = {}): Promise<T[]> {
+    return await this.db.query<T>(this.name, options);
+  }
+
+  /**
+   * Query one page of documents using cursor pagination
+   */
+  async queryPage(options: CursorQueryOptions<T> = {}): Promise<CursorPage<T>> {
+    return await this.db.queryPage<T>(this.name, options);
+  }
+
+  /**
+   * Iterate over every matching document
+   */
+  iterate(options: IterateOptions<T> = {}): AsyncGenerator<T, void, undefined> {
+    return this.db.iterate<T>(this.name, options);
+  }
+
+  /**
+   * Get a single document by ID
+   */
+  async get<K extends keyof T & string>(
+    id: string,
+    options: GetOptions<T> & { select: K[] }
+  ): Promise<Pick<T, K | 'id'> | null>;
+  async get(id: string, options?: GetOptions<T>): Promise<T | null>;
+  async get(id: string, options?: GetOptions<T>): Promise<T | null> {
+    return await this.db.get<T>(this.name, id, options);
+  }
+
+  /**
+   * Update a document
+   */
+  async update(id: string, data: Partial<T>): Promise<T> {
+    return await this.db.update<T>(this.name, id, data);
+  }
+
+  /**
+   * Apply the same patch to every document matching `where`
+   */
+  async updateMany(
+    where: WhereClause<T>,
+    patch: Partial<T>,
+    requestOptions?: RequestOptions
+  ): Promise<BulkResult<T>> {
+    return await this.db.updateMany<T>(this.name, where, patch, requestOptions);
+  }
+
+  /**
+   * Insert or update many documents keyed by `conflictKey`
+   */
+  async upsertMany(
+    rows: I[],
+    conflictKey: (keyof T & string) | Array<keyof T & string>,
+    requestOptions?: RequestOptions
+  ): Promise<BulkResult<T>> {
+    return await this.db.upsertMany<T>(this.name, rows as Partial<T>[], conflictKey, requestOptions);
+  }
+
+  /**
+   * Delete a document
+   */
+  async delete(id: string): Promise<boolean> {
+    return await this.db.delete(this.name, id);
+  }
+
+  /**
+   * Bring back a soft-deleted document
+   */
+  async restore(id: string): Promise<T> {
+    return await this.db.restore<T>(this.name, id);
+  }
+
+  /**
+   * Permanently delete a document
+   */
+  async purge(id: string): Promise<boolean> {
+    return await this.db.purge(this.name, id);
+  }
+
+  /**
+   * Permanently delete soft-deleted documents
+   */
+  async purgeDeleted(where?: WhereClause<T>, requestOptions?: RequestOptions): Promise<BulkResult<T>> {
+    return await this.db.purgeDeleted<T>(this.name, where, requestOptions);
+  }
+
+  /**
+   * Delete every document matching `where`
+   */
+  async deleteMany(where: WhereClause<T>, requestOptions?: RequestOptions): Promise<BulkResult<T>> {
+    return await this.db.deleteMany<T>(this.name, where, requestOptions);
+  }
+
+  /**
+   * Count documents
+   */
+  async count(
+    where?: WhereClause<T>,
+    options?: CountOptions
+  ): Promise<number> {
+    return await this.db.count<T>(this.name, where, options);
+  }
+
+  /**
+   * Compute grouped metrics on the server
+   */
+  async aggregate(options: AggregateOptions<T>): Promise<AggregateRow[]> {
+    return await this.db.aggregate<T>(this.name, options);
+  }
+
+  /**
+   * Full-text search, ranked by relevance
+   */
+  async search(query: string, options?: SearchOptions<T>): Promise<SearchHit<T>[]> {
+    return await this.db.search<T>(this.name, query, options);
+  }
+
+  /**
+   * Export the collection as JSON, NDJSON or CSV text chunks
+   */
+  export(options?: ExportOptions<T>): AsyncGenerator<string, void, undefined> {
+    return this.db.exportCollection<T>(this.name, options);
+  }
+
+  /**
+   * Import rows from JSON, NDJSON or CSV
+   */
+  async import(source: ImportSource, options?: ImportOptions): Promise<ImportResult> {
+    return await this.db.importCollection(this.name, source, options);
+  }
+
+  /**
+   * Subscribe to real-time changes
+   */
+  subscribe(
+    callback: (payload: RealtimePayload<T>) => void,
+    options?: SubscribeOptions<T>
+  ): Subscription {
+    return this.db.subscribe<T>(this.name, callback, options);
+  }
+}
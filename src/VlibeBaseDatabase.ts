@@ -22,61 +22,472 @@
  * // Key-value store
  * await db.setKV('settings', { theme: 'dark' });
  * const settings = await db.getKV('settings');
+ * const visits = await db.incrementKV('visits');
+ *
+ * // With `cache: true`, reads are cached and deduplicated; writes invalidate the cache
+ * await Promise.all([db.query('documents'), db.query('documents')]); // one request
+ *
+ * // Transactions
+ * await db.transaction(async (tx) => {
+ *   const order = await tx.insert('orders', { total: 100 });
+ *   await tx.insert('order_items', { orderId: order.id });
+ * });
  * ```
  */
 
-import { createClient, SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import type {
   DatabaseConfig,
   TableSchema,
   TableInfo,
+  AlterTableOperation,
   QueryOptions,
+  AggregateOptions,
+  AggregateRow,
+  SearchOptions,
+  SearchHit,
+  AuditEntry,
+  AuditLogOptions,
+  ExportOptions,
+  ImportOptions,
+  ImportResult,
+  CollectionDefinition,
+  GetOptions,
+  CountOptions,
+  IncludeClause,
+  CursorQueryOptions,
+  CursorPage,
+  IterateOptions,
+  CursorPaginatedResponse,
+  VlibeUser,
+  BulkResult,
+  WhereClause,
+  RealtimeEvent,
   RealtimePayload,
-  Subscription,
+  RealtimeStatus,
+  RealtimeSubscription,
+  SubscribeOptions,
   BaseRecord,
+  RetryPolicy,
+  RequestOptions,
+  CacheConfig,
+  RealtimeConfig,
+  ChannelOptions,
+  PresenceMember,
+  KVSetOptions,
+  KVEntry,
+  KVCompareAndSetResult,
+  KVListOptions,
+  OfflineConfig,
+  PendingMutation,
+  SyncResult,
+  ConflictResolver,
+  ProjectSnapshot,
+  SnapshotTable,
+  TableColumn,
+  CreateSnapshotOptions,
+  RestoreSnapshotOptions,
+  RestoreSnapshotResult,
+  DatabaseSchema,
+  InferRecord,
+  InferInsert,
 } from './types';
+import { VlibeError, VlibeNetworkError, VlibeNotFoundError, VlibeValidationError } from './errors';
+import { getFieldValue, matchesWhere, validateWhere } from './filters';
+import { getValidationIssues, validateRecord } from './schema';
+import { VlibeBaseCollection } from './VlibeBaseCollection';
+import { VlibeBaseLocalBackend } from './VlibeBaseLocalBackend';
+import { VlibeBaseQueryCache } from './VlibeBaseQueryCache';
+import { VlibeBaseOfflineStore } from './VlibeBaseOfflineStore';
+import { indexedDBStorage } from './offline';
+import { VlibeBaseChannel } from './VlibeBaseChannel';
+import type { ChannelConnection, ChannelConnectionHandlers } from './VlibeBaseChannel';
+import type { CacheChange } from './VlibeBaseQueryCache';
+import type { ValidationIssue } from './errors';
+import { coerceCsvRow, formatCsvLine, formatJsonEnd, formatRow, parseRows } from './transfer';
+import type { ImportSource } from './transfer';
+import {
+  DEFAULT_RETRY_POLICY,
+  generateIdempotencyKey,
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+} from './retry';
+import { VlibeBaseTransport, resolveBaseUrl } from './VlibeBaseTransport';
 
-const DEFAULT_BASE_URL = 'https://vlibe.app';
 const DEFAULT_SUPABASE_URL = 'https://qoblysxhxtifxhgdlzgl.supabase.co';
 
+/** Resync point that covers every row, when the server's latest change is unknown */
+const RESYNC_FROM_START = new Date(0).toISOString();
+
+function emptyBulkResult<T>(): BulkResult<T> {
+  return { data: [], results: [], successCount: 0, errorCount: 0 };
+}
+
+/**
+ * Keep the named tables, or all of them when no names are given
+ *
+ * @throws VlibeValidationError if a name is not among the tables
+ */
+function selectTables<T extends { name: string }>(
+  tables: T[],
+  names: string[] | undefined,
+  source: string
+): T[] {
+  if (!names) return tables;
+
+  const missing = names.filter((name) => !tables.some((table) => table.name === name));
+  if (missing.length > 0) {
+    throw new VlibeValidationError(`Tables not found in ${source}: ${missing.join(', ')}`, [
+      { field: 'tables', message: `unknown table(s): ${missing.join(', ')}` },
+    ]);
+  }
+  return tables.filter((table) => names.includes(table.name));
+}
+
+/**
+ * Definition to validate rows against a table's columns, or undefined for a
+ * table without declared columns
+ */
+function columnsDefinition(columns: TableColumn[]): CollectionDefinition | undefined {
+  if (columns.length === 0) return undefined;
+  return Object.fromEntries(
+    columns.map(({ name, type, required, default: defaultValue }) => [
+      name,
+      { type, required, default: defaultValue },
+    ])
+  );
+}
+
+/**
+ * Check a snapshot table's rows against its schema: types of declared
+ * columns, required columns, and IDs and unique columns without duplicates
+ *
+ * Undeclared fields are accepted by the server, so they are not reported.
+ */
+function snapshotIssues(table: SnapshotTable): ValidationIssue[] {
+  const definition = columnsDefinition(table.schema.columns);
+  const uniqueColumns = ['id', ...table.schema.columns.filter((c) => c.unique).map((c) => c.name)];
+  const seen = new Map(uniqueColumns.map((column) => [column, new Set<string>()]));
+  const issues: ValidationIssue[] = [];
+
+  table.rows.forEach((row, index) => {
+    const prefix = `${table.name}.rows[${index}]`;
+    const declared = definition
+      ? Object.fromEntries(Object.entries(row).filter(([field]) => field in definition))
+      : {};
+    for (const issue of definition ? getValidationIssues(definition, declared, 'insert') : []) {
+      issues.push({ field: `${prefix}.${issue.field}`, message: issue.message });
+    }
+    for (const [column, values] of seen) {
+      const value = row[column];
+      if (value === null || value === undefined) continue;
+      const key = JSON.stringify(value);
+      if (values.has(key)) issues.push({ field: `${prefix}.${column}`, message: 'is a duplicate' });
+      values.add(key);
+    }
+  });
+  return issues;
+}
+
+/**
+ * Guard against accidentally updating or deleting a whole collection
+ */
+function assertNonEmptyWhere(where: object, operation: string): void {
+  if (!where || Object.keys(where).length === 0) {
+    throw new VlibeValidationError(`${operation} requires a non-empty where clause`, [
+      { field: 'where', message: 'where clause must not be empty' },
+    ]);
+  }
+}
+
+/**
+ * A callback registered through `subscribe()` with its filters
+ */
+interface RealtimeListener {
+  callback: (payload: RealtimePayload<BaseRecord>) => void;
+  events: Set<RealtimeEvent> | null;
+  where: WhereClause | undefined;
+  /** Deliver soft deletes as DELETE events and restores as INSERT events */
+  hideDeleted: boolean;
+  statusCallbacks: Set<(status: RealtimeStatus, error?: Error) => void>;
+}
+
+/**
+ * The realtime channel of one collection, shared by all of its listeners
+ */
+interface CollectionChannel {
+  listeners: Set<RealtimeListener>;
+  status: RealtimeStatus;
+  /** Latest `updated_at` seen, where a resync after reconnecting starts */
+  lastSeen: string | null;
+  /** Hand an event to the listeners without treating it as seen from the server */
+  deliver: (payload: RealtimePayload<BaseRecord>) => void;
+  close: () => void;
+}
+
+/**
+ * A presence and broadcast channel, shared by every `db.channel()` call with its name
+ */
+interface NamedChannel {
+  /** Each caller picks its own member state type for the same channel */
+  channel: VlibeBaseChannel<Record<string, unknown>>;
+  options: ChannelOptions;
+  refs: number;
+}
+
+/**
+ * Reports the status of a realtime source; `open` may be reported again
+ * after a reconnect
+ */
+type SourceStatusHandler = (status: 'open' | 'closed' | 'error', error?: Error) => void;
+
+/**
+ * Check a realtime event against a listener's filters
+ */
+function shouldDeliver(listener: RealtimeListener, payload: RealtimePayload<BaseRecord>): boolean {
+  if (listener.events && !listener.events.has(payload.eventType)) return false;
+  if (!listener.where) return true;
+
+  // Deletes only carry the primary key unless the table uses REPLICA
+  // IDENTITY FULL; they cannot be matched, so they are always delivered
+  const old = payload.old;
+  if (payload.eventType === 'DELETE' && (!old || Object.keys(old).every((key) => key === 'id'))) {
+    return true;
+  }
+
+  return [payload.new, payload.old].some(
+    (row) => !!row && matchesWhere(row as unknown as Record<string, unknown>, listener.where!)
+  );
+}
+
+function isDeleted(row: object): boolean {
+  return !!(row as { deleted_at?: unknown }).deleted_at;
+}
+
+/**
+ * Present soft deletes as DELETE events and restores as INSERT events
+ *
+ * @returns The event to deliver, or null if it only concerns deleted rows
+ */
+function hideSoftDeletes(payload: RealtimePayload<BaseRecord>): RealtimePayload<BaseRecord> | null {
+  const { eventType, old } = payload;
+  const current = payload.new;
+  const wasDeleted = !!old && isDeleted(old);
+
+  if (eventType === 'INSERT') return current && isDeleted(current) ? null : payload;
+  if (eventType === 'DELETE') return wasDeleted ? null : payload;
+
+  if (current && isDeleted(current)) {
+    return wasDeleted ? null : { ...payload, eventType: 'DELETE', new: null, old: current };
+  }
+  return wasDeleted ? { ...payload, eventType: 'INSERT', old: null } : payload;
+}
+
+/**
+ * Keep whichever change is newer: the queued write, or the server's row
+ *
+ * A row deleted on the server stays deleted.
+ */
+const lastWriteWins: ConflictResolver = ({ mutation, local, remote }) => {
+  if (!remote || isDeleted(remote)) return null;
+  return mutation.timestamp > remote.updated_at ? local : remote;
+};
+
+/**
+ * Limit an event to rows the user owns
+ *
+ * A row given to someone else is delivered as a DELETE, a row given to the
+ * user as an INSERT. Deletes carrying only the primary key cannot be
+ * checked and are delivered.
+ *
+ * @returns The event to deliver, or null if it only concerns other users' rows
+ */
+function scopeToOwner(
+  payload: RealtimePayload<BaseRecord>,
+  ownerField: string,
+  userId: string
+): RealtimePayload<BaseRecord> | null {
+  const { eventType, old } = payload;
+  const current = payload.new;
+  if (eventType === 'DELETE' && (!old || !(ownerField in old))) return payload;
+
+  const ownedBefore = !!old && getFieldValue(old, ownerField) === userId;
+  const ownedAfter = !!current && getFieldValue(current, ownerField) === userId;
+
+  if (eventType !== 'UPDATE') return ownedBefore || ownedAfter ? payload : null;
+  if (ownedBefore && !ownedAfter) return { ...payload, eventType: 'DELETE', new: null };
+  if (!ownedBefore && ownedAfter) return { ...payload, eventType: 'INSERT', old: null };
+  return ownedAfter ? payload : null;
+}
+
+/**
+ * Whether a read returns partial rows or extra fields, which must not be
+ * indexed as full records by the cache
+ */
+function isProjected(options: { select?: string[]; include?: IncludeClause }): boolean {
+  return (options.select?.length ?? 0) > 0 || !!options.include;
+}
+
 /**
- * Get the base URL from environment or config
+ * Collections a read depends on, for cache invalidation
+ *
+ * Relations declared in the table's schema are only known to the server,
+ * so including one makes the read depend on every collection.
  */
-function resolveBaseUrl(configBaseUrl?: string): string {
-  if (configBaseUrl) return configBaseUrl;
-  if (typeof process !== 'undefined' && process.env) {
-    if (process.env.VLIBE_BASE_URL) return process.env.VLIBE_BASE_URL;
-    if (process.env.NEXT_PUBLIC_VLIBE_BASE_URL) return process.env.NEXT_PUBLIC_VLIBE_BASE_URL;
+function readCollections(collection: string, include?: IncludeClause): string[] {
+  const collections = [collection];
+  for (const relation of Object.values(include || {})) {
+    collections.push(relation !== true && 'collection' in relation ? relation.collection : '*');
   }
-  return DEFAULT_BASE_URL;
+  return collections;
 }
 
-export class VlibeBaseDatabase {
+/**
+ * Operations available inside `db.transaction()`
+ *
+ * Same CRUD surface as `VlibeBaseDatabase`; every call joins the transaction.
+ */
+export type DatabaseTransaction = Pick<
+  VlibeBaseDatabase,
+  | 'insert'
+  | 'query'
+  | 'queryPage'
+  | 'iterate'
+  | 'get'
+  | 'update'
+  | 'delete'
+  | 'restore'
+  | 'purge'
+  | 'purgeDeleted'
+  | 'history'
+  | 'revert'
+  | 'count'
+  | 'aggregate'
+  | 'search'
+  | 'insertMany'
+  | 'updateMany'
+  | 'upsertMany'
+  | 'deleteMany'
+  | 'setKV'
+  | 'getKV'
+  | 'getKVEntry'
+  | 'deleteKV'
+  | 'incrementKV'
+  | 'compareAndSetKV'
+  | 'getManyKV'
+  | 'setManyKV'
+  | 'listKV'
+>;
+
+export class VlibeBaseDatabase<S extends DatabaseSchema = DatabaseSchema> {
   private projectId: string;
   private databaseToken: string;
   private baseUrl: string;
+  private retryPolicy: Required<RetryPolicy>;
+  private transport: VlibeBaseTransport;
+  private schema: S | undefined;
+  private cache: VlibeBaseQueryCache | null;
+  private softDeleteCollections: Set<string>;
   private supabaseUrl: string;
   private supabase: SupabaseClient | null = null;
-  private subscriptions: Map<string, RealtimeChannel> = new Map();
+  private collectionChannels: Map<string, CollectionChannel> = new Map();
+  private namedChannels: Map<string, NamedChannel> = new Map();
+  private reconnectPolicy: Required<RetryPolicy> | null;
+  private resyncOnReconnect: boolean;
+  private activeTransaction: { id: string; completed: boolean } | null = null;
+  private actor: string | null = null;
+  /** Set on clients returned by `forUser()` */
+  private session: {
+    token: string;
+    user: VlibeUser;
+    /** Owner field of each collection with one, from the server */
+    ownership: Record<string, string>;
+  } | null = null;
+  private localBackend: VlibeBaseLocalBackend | null = null;
+  private offline: VlibeBaseOfflineStore | null = null;
+  private resolveConflict: ConflictResolver = lastWriteWins;
+  private onSync: ((result: SyncResult) => void) | undefined;
+  private syncRetryPolicy: Required<RetryPolicy> | null = null;
+  /** Browser `online` listener added by offline mode */
+  private onlineListener: (() => void) | null = null;
+  /** Set on the handle that replays queued writes, so they are sent directly */
+  private replaying = false;
 
   /**
    * Create a new VlibeBaseDatabase instance
    *
    * @param config - Database configuration
-   * @throws Error if projectId or databaseToken is missing
+   * @throws VlibeValidationError if projectId or databaseToken is missing
    */
-  constructor(config: DatabaseConfig) {
+  constructor(config: DatabaseConfig<S>) {
     if (!config.projectId) {
-      throw new Error('VlibeBaseDatabase: projectId is required');
+      throw new VlibeValidationError('VlibeBaseDatabase: projectId is required', [
+        { field: 'projectId', message: 'projectId is required' },
+      ]);
     }
     if (!config.databaseToken) {
-      throw new Error('VlibeBaseDatabase: databaseToken is required');
+      throw new VlibeValidationError('VlibeBaseDatabase: databaseToken is required', [
+        { field: 'databaseToken', message: 'databaseToken is required' },
+      ]);
     }
 
     this.projectId = config.projectId;
     this.databaseToken = config.databaseToken;
     this.baseUrl = resolveBaseUrl(config.baseUrl);
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.transport = config.transport || new VlibeBaseTransport();
+    this.schema = config.schema;
+    this.cache = config.cache ? new VlibeBaseQueryCache(config.cache === true ? {} : config.cache) : null;
+    this.softDeleteCollections = new Set(config.softDelete);
+    this.reconnectPolicy =
+      config.realtime?.reconnect === false
+        ? null
+        : { ...DEFAULT_RETRY_POLICY, maxAttempts: Infinity, ...config.realtime?.reconnect };
+    this.resyncOnReconnect = config.realtime?.resync ?? true;
     this.supabaseUrl = config.supabaseUrl || DEFAULT_SUPABASE_URL;
+    if (config.offline) this.enableOffline(config.offline);
+  }
+
+  /**
+   * Create a database backed by an in-memory local backend
+   *
+   * No network is used: CRUD, queries, bulk operations, transactions, the
+   * key-value store and realtime subscriptions all run in memory. Pass a
+   * shared `backend` to give several clients the same data.
+   *
+   * @example
+   * ```typescript
+   * const db = VlibeBaseDatabase.inMemory();
+   * await db.insert('todos', { title: 'Offline' });
+   * ```
+   */
+  static inMemory<S extends DatabaseSchema = DatabaseSchema>(
+    options: {
+      projectId?: string;
+      schema?: S;
+      backend?: VlibeBaseLocalBackend;
+      cache?: CacheConfig | boolean;
+      realtime?: RealtimeConfig;
+      softDelete?: string[];
+      offline?: OfflineConfig;
+    } = {}
+  ): VlibeBaseDatabase<S> {
+    const backend = options.backend || new VlibeBaseLocalBackend();
+    const db = new VlibeBaseDatabase<S>({
+      projectId: options.projectId || 'local',
+      databaseToken: 'local',
+      baseUrl: 'http://localhost',
+      schema: options.schema,
+      cache: options.cache,
+      realtime: options.realtime,
+      softDelete: options.softDelete,
+      offline: options.offline,
+      retry: false,
+      transport: new VlibeBaseTransport({ fetch: backend.fetch }),
+    });
+    db.localBackend = backend;
+    return db;
   }
 
   /**
@@ -119,29 +530,206 @@ export class VlibeBaseDatabase {
 
   /**
    * Make an authenticated API request
+   *
+   * Transient failures are retried according to the configured retry policy.
+   *
+   * @throws VlibeNetworkError if the API could not be reached
+   * @throws VlibeApiError (or a subclass) if the API returned an error status
    */
   private async apiRequest<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    requestOptions: RequestOptions = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}/api/database/${this.projectId}${endpoint}`;
-
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${this.databaseToken}`,
-        ...options.headers,
+    if (this.activeTransaction?.completed) {
+      throw new VlibeError(
+        `Transaction ${this.activeTransaction.id} has already completed; ` +
+          'use the tx handle only inside the transaction callback'
+      );
+    }
+    const transactionHeaders: Record<string, string> = this.activeTransaction
+      ? { 'X-Transaction-Id': this.activeTransaction.id }
+      : {};
+    const actorHeaders: Record<string, string> = this.actor ? { 'X-Vlibe-Actor': this.actor } : {};
+    const sessionHeaders: Record<string, string> = this.session
+      ? { 'X-Vlibe-Session': this.session.token }
+      : {};
+
+    return this.transport.request<T>(
+      `${this.baseUrl}/api/database/${this.projectId}${endpoint}`,
+      {
+        ...options,
+        headers: {
+          Authorization: `Bearer ${this.databaseToken}`,
+          ...transactionHeaders,
+          ...actorHeaders,
+          ...sessionHeaders,
+          ...options.headers,
+        },
       },
-    });
+      {
+        endpoint,
+        retry: this.retryPolicy,
+        idempotencyKey: requestOptions.idempotencyKey,
+        fallbackMessage: 'Database API request failed',
+      }
+    );
+  }
+
+  /**
+   * Build the shared query string parameters for collection queries
+   */
+  private buildQueryParams<T>(collection: string, options: CursorQueryOptions<T>): URLSearchParams {
+    const params = new URLSearchParams();
+    if (options.limit) params.set('limit', String(options.limit));
+    if (options.orderBy) params.set('orderBy', options.orderBy);
+    if (options.orderDirection) params.set('orderDirection', options.orderDirection);
+    this.setWhereParam(params, collection, options.where, options.includeDeleted);
+    this.setProjectionParams(params, options);
+    return params;
+  }
+
+  /**
+   * Validate a where clause and add it to a query string, scoped to live
+   * rows in soft-delete collections
+   *
+   * @throws VlibeValidationError if the where clause is malformed
+   */
+  private setWhereParam<T>(
+    params: URLSearchParams,
+    collection: string,
+    where: WhereClause<T> | undefined,
+    includeDeleted?: boolean | 'only'
+  ): void {
+    if (where) validateWhere(where);
+    const scoped = this.scopeWhere(collection, where, includeDeleted);
+    if (scoped) params.set('where', JSON.stringify(scoped));
+  }
+
+  /**
+   * Restrict a where clause to live rows, or to deleted rows with `'only'`,
+   * if the collection uses soft delete
+   */
+  private scopeWhere<T>(
+    collection: string,
+    where: WhereClause<T> | undefined,
+    includeDeleted: boolean | 'only' = false
+  ): WhereClause<T> | undefined {
+    if (!this.softDeleteCollections.has(collection) || includeDeleted === true) return where;
+    const scope = { deleted_at: { $isNull: includeDeleted !== 'only' } } as WhereClause<T>;
+    if (!where || Object.keys(where).length === 0) return scope;
+    return { $and: [where, scope] } as WhereClause<T>;
+  }
+
+  /**
+   * @throws VlibeError if the collection is not configured for soft delete
+   */
+  private assertSoftDelete(collection: string, method: string): void {
+    if (!this.softDeleteCollections.has(collection)) {
+      throw new VlibeError(
+        `${method}() requires soft delete; add '${collection}' to the softDelete option`
+      );
+    }
+  }
 
-    const data = await response.json();
+  /**
+   * Add `select` and `include` to a query string
+   *
+   * @throws VlibeValidationError if an include's where clause is malformed
+   */
+  private setProjectionParams(
+    params: URLSearchParams,
+    options: { select?: string[]; include?: IncludeClause }
+  ): void {
+    if (options.select && options.select.length > 0) {
+      params.set('select', options.select.join(','));
+    }
+    if (options.include) {
+      for (const relation of Object.values(options.include)) {
+        if (relation !== true && relation.where) validateWhere(relation.where);
+      }
+      params.set('include', JSON.stringify(options.include));
+      // Relations declared in the schema are resolved by the server, so it is
+      // told which collections' deleted rows to leave out
+      if (this.softDeleteCollections.size > 0) {
+        params.set('softDelete', [...this.softDeleteCollections].join(','));
+      }
+    }
+  }
+
+  /**
+   * Read through the query cache
+   *
+   * Reads inside a transaction, or with `cache: false`, always go to the server.
+   */
+  private cachedRead<T>(
+    key: string,
+    collections: string[],
+    useCache: boolean | undefined,
+    load: () => Promise<T>,
+    extractRecords?: (value: T) => BaseRecord[]
+  ): Promise<T> {
+    if (!this.cache || this.activeTransaction || useCache === false) {
+      return load();
+    }
+    return this.cache.read(key, collections, load, extractRecords);
+  }
+
+  /**
+   * Update the query cache after a write
+   *
+   * Without a known change the whole collection is dropped. Writes inside a
+   * transaction are applied when it commits.
+   */
+  private recordChange(collection: string, change?: CacheChange): void {
+    if (!this.cache || this.activeTransaction) return;
+    if (change) {
+      this.cache.applyChange(collection, change);
+    } else {
+      this.cache.invalidate(collection);
+    }
+  }
+
+  /**
+   * Fill in the owner field of a row inserted through `forUser()`
+   *
+   * The server sets it too; doing it here lets the row pass schema validation.
+   */
+  private withOwner<T extends object>(collection: string, data: T): T {
+    const ownerField = this.session?.ownership[collection];
+    if (!ownerField || (data as Record<string, unknown>)[ownerField] != null) return data;
+    return { ...data, [ownerField]: this.session!.user.id };
+  }
 
-    if (!response.ok) {
-      throw new Error(data.error || data.message || 'API request failed');
+  /**
+   * Validate a write against the collection's schema, if one was declared
+   */
+  private validateWrite(collection: string, data: object, mode: 'insert' | 'update'): void {
+    const definition = this.schema?.[collection];
+    if (definition) {
+      validateRecord(collection, definition, data as Record<string, unknown>, mode);
     }
+  }
+
+  /**
+   * Validate many rows, reporting issues as `rows[index].field`
+   */
+  private validateRows(collection: string, rows: object[], mode: 'insert' | 'update'): void {
+    const definition = this.schema?.[collection];
+    if (!definition) return;
 
-    return data;
+    const issues: ValidationIssue[] = [];
+    rows.forEach((row, index) => {
+      for (const issue of getValidationIssues(definition, row as Record<string, unknown>, mode)) {
+        issues.push({ field: `rows[${index}].${issue.field}`, message: issue.message });
+      }
+    });
+    if (issues.length > 0) {
+      throw new VlibeValidationError(
+        `Invalid ${collection} records: ${issues.length} issue(s) found`,
+        issues
+      );
+    }
   }
 
   // ============================================================================
@@ -164,6 +752,8 @@ export class VlibeBaseDatabase {
 
   /**
    * Get table information
+   *
+   * @returns The table, or null if it does not exist
    */
   async getTable(name: string): Promise<TableInfo | null> {
     try {
@@ -171,8 +761,9 @@ export class VlibeBaseDatabase {
         `/tables/${name}`
       );
       return response.data;
-    } catch {
-      return null;
+    } catch (error) {
+      if (error instanceof VlibeNotFoundError) return null;
+      throw error;
     }
   }
 
@@ -186,11 +777,38 @@ export class VlibeBaseDatabase {
     return response.data;
   }
 
+  /**
+   * Change an existing table's columns
+   *
+   * Operations are applied in order.
+   *
+   * @example
+   * ```typescript
+   * await db.alterTable('products', [
+   *   { type: 'addColumn', column: { name: 'weight', type: 'number', default: 0 } },
+   *   { type: 'renameColumn', from: 'desc', to: 'description' },
+   *   { type: 'addUnique', name: 'sku' },
+   * ]);
+   * ```
+   */
+  async alterTable(name: string, operations: AlterTableOperation[]): Promise<TableInfo> {
+    const response = await this.apiRequest<{ success: boolean; data: TableInfo }>(
+      `/tables/${name}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ operations }),
+      }
+    );
+    this.recordChange(name);
+    return response.data;
+  }
+
   /**
    * Delete a table
    */
   async deleteTable(name: string): Promise<boolean> {
     await this.apiRequest(`/tables/${name}`, { method: 'DELETE' });
+    this.recordChange(name);
     return true;
   }
 
@@ -198,103 +816,1377 @@ export class VlibeBaseDatabase {
   // CRUD Operations
   // ============================================================================
 
+  /**
+   * Get a typed handle for a collection
+   *
+   * With a `schema` configured, the record and insert types are inferred
+   * from the collection's column definitions.
+   *
+   * @example
+   * ```typescript
+   * const todos = db.collection('todos');
+   * await todos.insert({ title: 'Ship it' });
+   * ```
+   */
+  collection<K extends keyof S & string>(
+    name: K
+  ): VlibeBaseCollection<InferRecord<S[K]>, InferInsert<S[K]>, S> {
+    return new VlibeBaseCollection(this, name);
+  }
+
   /**
    * Insert a document into a collection
+   *
+   * @param requestOptions - Optional idempotency key; one is generated if omitted
    */
   async insert<T extends BaseRecord>(
     collection: string,
-    data: Partial<T>
+    data: Partial<T>,
+    requestOptions?: RequestOptions
   ): Promise<T> {
-    const response = await this.apiRequest<{ success: boolean; data: T }>(
-      `/collections/${collection}`,
-      {
-        method: 'POST',
-        body: JSON.stringify(data),
+    data = this.withOwner(collection, data);
+    this.validateWrite(collection, data, 'insert');
+
+    if (this.offline && !data.id) data = { ...data, id: crypto.randomUUID() };
+    const idempotencyKey = requestOptions?.idempotencyKey || generateIdempotencyKey();
+    const row = await this.writeThrough(
+      { id: idempotencyKey, collection, type: 'insert', recordId: data.id as string, data },
+      async () => {
+        const response = await this.apiRequest<{ success: boolean; data: T }>(
+          `/collections/${collection}`,
+          {
+            method: 'POST',
+            body: JSON.stringify(data),
+          },
+          { idempotencyKey }
+        );
+        this.recordChange(collection, { upserted: [response.data] });
+        return response.data;
       }
     );
-    return response.data;
+    return row as T;
   }
 
   /**
    * Query documents from a collection
+   *
+   * @example
+   * ```typescript
+   * const lowStock = await db.query<Product>('products', {
+   *   where: { isActive: true, stock: { $lte: 10 } },
+   * });
+   * ```
+   *
+   * With `select`, only the listed columns (and `id`) are returned. With
+   * `include`, related rows are loaded in the same request and returned
+   * under the include's name: an array for `hasMany`, a row or null for
+   * `belongsTo`.
+   *
+   * @example
+   * ```typescript
+   * const orders = await db.query<Order & { items: OrderItem[] }>('orders', {
+   *   select: ['status', 'total'],
+   *   include: {
+   *     items: { type: 'hasMany', collection: 'order_items', foreignKey: 'orderId' },
+   *   },
+   * });
+   * ```
+   *
+   * @throws VlibeValidationError if a where clause is malformed
    */
+  async query<T extends BaseRecord, K extends keyof T & string>(
+    collection: string,
+    options: QueryOptions<T> & { select: K[] }
+  ): Promise<Pick<T, K | 'id'>[]>;
+  async query<T extends BaseRecord>(collection: string, options?: QueryOptions<T>): Promise<T[]>;
   async query<T extends BaseRecord>(
     collection: string,
-    options: QueryOptions = {}
+    options: QueryOptions<T> = {}
   ): Promise<T[]> {
-    const params = new URLSearchParams();
-    if (options.limit) params.set('limit', String(options.limit));
+    const params = this.buildQueryParams(collection, options);
     if (options.offset) params.set('offset', String(options.offset));
-    if (options.orderBy) params.set('orderBy', options.orderBy);
-    if (options.orderDirection) params.set('orderDirection', options.orderDirection);
-    if (options.where) params.set('where', JSON.stringify(options.where));
 
     const queryString = params.toString();
     const endpoint = `/collections/${collection}${queryString ? `?${queryString}` : ''}`;
 
-    const response = await this.apiRequest<{ success: boolean; data: T[] }>(endpoint);
-    return response.data;
+    const read = () =>
+      this.cachedRead(
+        `query:${endpoint}`,
+        readCollections(collection, options.include),
+        options.cache,
+        async () => {
+          const response = await this.apiRequest<{ success: boolean; data: T[] }>(endpoint);
+          return response.data;
+        },
+        isProjected(options) ? undefined : (rows) => rows
+      );
+    return this.readThrough(collection, options as QueryOptions, read);
+  }
+
+  /**
+   * Query one page of documents using cursor (keyset) pagination
+   *
+   * Unlike `limit`/`offset`, cursors never skip or repeat rows when data
+   * changes between pages.
+   *
+   * @example
+   * ```typescript
+   * let page = await db.queryPage('orders', { limit: 50 });
+   * while (page.hasMore) {
+   *   page = await db.queryPage('orders', { limit: 50, cursor: page.nextCursor });
+   * }
+   * ```
+   */
+  async queryPage<T extends BaseRecord>(
+    collection: string,
+    options: CursorQueryOptions<T> = {}
+  ): Promise<CursorPage<T>> {
+    const params = this.buildQueryParams(collection, options);
+    params.set('pagination', 'cursor');
+    if (options.cursor) params.set('cursor', options.cursor);
+
+    const endpoint = `/collections/${collection}?${params.toString()}`;
+
+    return this.cachedRead(
+      `page:${endpoint}`,
+      readCollections(collection, options.include),
+      options.cache,
+      async (): Promise<CursorPage<T>> => {
+        const response = await this.apiRequest<CursorPaginatedResponse<T>>(endpoint);
+        return {
+          data: response.data,
+          nextCursor: response.nextCursor ?? null,
+          hasMore: response.hasMore && !!response.nextCursor,
+        };
+      },
+      isProjected(options) ? undefined : (page) => page.data
+    );
+  }
+
+  /**
+   * Iterate over every document matching the options, fetching pages on demand
+   *
+   * Pages are always fetched from the server and are not cached.
+   *
+   * @example
+   * ```typescript
+   * for await (const order of db.iterate<Order>('orders', { pageSize: 500 })) {
+   *   exportRow(order);
+   * }
+   * ```
+   */
+  async *iterate<T extends BaseRecord>(
+    collection: string,
+    options: IterateOptions<T> = {}
+  ): AsyncGenerator<T, void, undefined> {
+    const { pageSize = 100, ...queryOptions } = options;
+    let cursor = queryOptions.cursor ?? null;
+
+    do {
+      const page = await this.queryPage<T>(collection, {
+        ...queryOptions,
+        limit: pageSize,
+        cursor,
+        cache: false,
+      });
+      for (const row of page.data) {
+        yield row;
+      }
+      cursor = page.hasMore ? page.nextCursor : null;
+    } while (cursor);
   }
 
   /**
    * Get a single document by ID
+   *
+   * Served from the cache when a recent query already returned the document.
+   *
+   * @param options - Columns to return, relations to include, or
+   * `cache: false` to bypass the client-side cache
+   * @returns The document, or null if it does not exist
+   *
+   * @example
+   * ```typescript
+   * const order = await db.get<Order & { items: OrderItem[] }>('orders', orderId, {
+   *   include: {
+   *     items: { type: 'hasMany', collection: 'order_items', foreignKey: 'orderId' },
+   *   },
+   * });
+   * ```
    */
+  async get<T extends BaseRecord, K extends keyof T & string>(
+    collection: string,
+    id: string,
+    options: GetOptions<T> & { select: K[] }
+  ): Promise<Pick<T, K | 'id'> | null>;
   async get<T extends BaseRecord>(
     collection: string,
-    id: string
+    id: string,
+    options?: GetOptions<T>
+  ): Promise<T | null>;
+  async get<T extends BaseRecord>(
+    collection: string,
+    id: string,
+    options: GetOptions<T> = {}
   ): Promise<T | null> {
-    try {
-      const response = await this.apiRequest<{ success: boolean; data: T }>(
-        `/collections/${collection}/${id}`
+    const projected = isProjected(options);
+    const hideDeleted = this.softDeleteCollections.has(collection) && !options.includeDeleted;
+    if (this.cache && !this.activeTransaction && options.cache !== false && !projected) {
+      const cached = this.cache.getRecord<T>(collection, id);
+      if (cached && !(hideDeleted && isDeleted(cached))) return cached;
+    }
+
+    // Deleted documents are recognized by deleted_at, so it is always fetched
+    const requested: string[] | undefined = options.select;
+    const select =
+      hideDeleted && requested?.length && !requested.includes('deleted_at')
+        ? [...requested, 'deleted_at']
+        : requested;
+
+    const params = new URLSearchParams();
+    this.setProjectionParams(params, { select, include: options.include });
+    const queryString = params.toString();
+    const endpoint = `/collections/${collection}/${id}${queryString ? `?${queryString}` : ''}`;
+
+    const read = async () => {
+      const found = await this.cachedRead(
+        `get:${endpoint}`,
+        readCollections(collection, options.include),
+        options.cache,
+        async () => {
+          try {
+            const response = await this.apiRequest<{ success: boolean; data: T }>(endpoint);
+            return response.data;
+          } catch (error) {
+            if (error instanceof VlibeNotFoundError) return null;
+            throw error;
+          }
+        },
+        projected ? undefined : (found) => (found ? [found] : [])
       );
-      return response.data;
-    } catch {
-      return null;
+      return found ? [found] : [];
+    };
+    const [doc = null] = await this.readThrough(
+      collection,
+      { where: { id }, select, include: options.include, includeDeleted: true },
+      read
+    );
+
+    if (!doc || !hideDeleted) return doc;
+    if (isDeleted(doc)) return null;
+    if (select !== requested) {
+      const { deleted_at: _deletedAt, ...selected } = doc as T & { deleted_at?: unknown };
+      return selected as T;
     }
+    return doc;
   }
 
   /**
    * Update a document
+   *
+   * @throws VlibeNotFoundError if the document does not exist or was soft-deleted
    */
   async update<T extends BaseRecord>(
     collection: string,
     id: string,
     data: Partial<T>
   ): Promise<T> {
-    const response = await this.apiRequest<{ success: boolean; data: T }>(
-      `/collections/${collection}/${id}`,
-      {
-        method: 'PATCH',
-        body: JSON.stringify(data),
+    this.validateWrite(collection, data, 'update');
+
+    // Soft-deleted documents are only changed by restore()
+    const params = new URLSearchParams();
+    this.setWhereParam(params, collection, undefined);
+    const queryString = params.toString();
+
+    const row = await this.writeThrough(
+      { id: generateIdempotencyKey(), collection, type: 'update', recordId: id, data },
+      async () => {
+        const response = await this.apiRequest<{ success: boolean; data: T }>(
+          `/collections/${collection}/${id}${queryString ? `?${queryString}` : ''}`,
+          {
+            method: 'PATCH',
+            body: JSON.stringify(data),
+          }
+        );
+        this.recordChange(collection, { upserted: [response.data] });
+        return response.data;
       }
     );
-    return response.data;
+    return row as T;
   }
 
   /**
    * Delete a document
+   *
+   * In soft-delete collections the document is only marked deleted and can
+   * be brought back with `restore()`; use `purge()` to remove it for good.
    */
   async delete(collection: string, id: string): Promise<boolean> {
-    await this.apiRequest(`/collections/${collection}/${id}`, {
+    await this.writeThrough(
+      { id: generateIdempotencyKey(), collection, type: 'delete', recordId: id },
+      async () => {
+        if (this.softDeleteCollections.has(collection)) {
+          await this.apiRequest(`/collections/${collection}/${id}`, {
+            method: 'PATCH',
+            body: JSON.stringify({ deleted_at: new Date().toISOString() }),
+          });
+        } else {
+          await this.apiRequest(`/collections/${collection}/${id}`, {
+            method: 'DELETE',
+          });
+        }
+        this.recordChange(collection, { deletedIds: [id] });
+        return null;
+      }
+    );
+    return true;
+  }
+
+  /**
+   * Whether deletes in a collection are soft, per the `softDelete` option
+   */
+  isSoftDelete(collection: string): boolean {
+    return this.softDeleteCollections.has(collection);
+  }
+
+  /**
+   * Bring back a soft-deleted document
+   *
+   * @throws VlibeError if the collection does not use soft delete
+   */
+  async restore<T extends BaseRecord>(collection: string, id: string): Promise<T> {
+    this.assertSoftDelete(collection, 'restore');
+
+    const response = await this.apiRequest<{ success: boolean; data: T }>(
+      `/collections/${collection}/${id}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ deleted_at: null }),
+      }
+    );
+    this.recordChange(collection, { upserted: [response.data] });
+    return response.data;
+  }
+
+  /**
+   * Permanently delete a document, whether or not it was soft-deleted
+   */
+  async purge(collection: string, id: string): Promise<boolean> {
+    await this.apiRequest(`/collections/${collection}/${id}`, {
       method: 'DELETE',
     });
+    this.recordChange(collection, { deletedIds: [id] });
     return true;
   }
 
   /**
-   * Count documents in a collection
+   * Permanently delete soft-deleted documents, optionally only those matching `where`
+   *
+   * @example
+   * ```typescript
+   * // Empty the trash of anything deleted more than 30 days ago
+   * const cutoff = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+   * await db.purgeDeleted('notes', { deleted_at: { $lt: cutoff } });
+   * ```
+   *
+   * @returns Per-row results containing the purged documents
+   * @throws VlibeError if the collection does not use soft delete
+   */
+  async purgeDeleted<T extends BaseRecord>(
+    collection: string,
+    where?: WhereClause<T>,
+    requestOptions?: RequestOptions
+  ): Promise<BulkResult<T>> {
+    this.assertSoftDelete(collection, 'purgeDeleted');
+    if (where) validateWhere(where);
+
+    const response = await this.apiRequest<{ success: boolean; data: BulkResult<T> }>(
+      `/collections/${collection}/bulk`,
+      {
+        method: 'DELETE',
+        body: JSON.stringify({ where: this.scopeWhere(collection, where, 'only') }),
+      },
+      requestOptions
+    );
+    this.recordChange(collection, { deletedIds: response.data.data.map((row) => row.id) });
+    return response.data;
+  }
+
+  // ============================================================================
+  // Bulk Operations
+  // ============================================================================
+
+  /**
+   * Insert many documents in a single request
+   *
+   * @param requestOptions - Optional idempotency key; one is generated if omitted
+   * @returns Per-row results; rows that fail do not prevent others from being inserted
+   */
+  async insertMany<T extends BaseRecord>(
+    collection: string,
+    rows: Partial<T>[],
+    requestOptions?: RequestOptions
+  ): Promise<BulkResult<T>> {
+    if (rows.length === 0) return emptyBulkResult<T>();
+    rows = rows.map((row) => this.withOwner(collection, row));
+    this.validateRows(collection, rows, 'insert');
+
+    const response = await this.apiRequest<{ success: boolean; data: BulkResult<T> }>(
+      `/collections/${collection}/bulk`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ rows }),
+      },
+      requestOptions
+    );
+    this.recordChange(collection, { upserted: response.data.data });
+    return response.data;
+  }
+
+  /**
+   * Apply the same patch to every document matching `where`
+   *
+   * @throws VlibeValidationError if `where` is empty (use an explicit filter
+   * to update a whole collection)
+   */
+  async updateMany<T extends BaseRecord>(
+    collection: string,
+    where: WhereClause<T>,
+    patch: Partial<T>,
+    requestOptions?: RequestOptions
+  ): Promise<BulkResult<T>> {
+    assertNonEmptyWhere(where, 'updateMany');
+    validateWhere(where);
+    this.validateWrite(collection, patch, 'update');
+
+    const response = await this.apiRequest<{ success: boolean; data: BulkResult<T> }>(
+      `/collections/${collection}/bulk`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ where: this.scopeWhere(collection, where), patch }),
+      },
+      requestOptions
+    );
+    this.recordChange(collection, { upserted: response.data.data });
+    return response.data;
+  }
+
+  /**
+   * Insert or update many documents in a single request
+   *
+   * @param conflictKey - Column(s) identifying an existing row, e.g. `'id'` or `['userId', 'productId']`
+   */
+  async upsertMany<T extends BaseRecord>(
+    collection: string,
+    rows: Partial<T>[],
+    conflictKey: string | string[],
+    requestOptions?: RequestOptions
+  ): Promise<BulkResult<T>> {
+    if (rows.length === 0) return emptyBulkResult<T>();
+    rows = rows.map((row) => this.withOwner(collection, row));
+    // Rows may update existing records, so only the provided fields are checked
+    this.validateRows(collection, rows, 'update');
+
+    const response = await this.apiRequest<{ success: boolean; data: BulkResult<T> }>(
+      `/collections/${collection}/bulk`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({
+          rows,
+          conflictKey: Array.isArray(conflictKey) ? conflictKey : [conflictKey],
+          // Soft-deleted rows are not matched, so they are never updated
+          where: this.scopeWhere(collection, undefined),
+        }),
+      },
+      requestOptions
+    );
+    this.recordChange(collection, { upserted: response.data.data });
+    return response.data;
+  }
+
+  /**
+   * Delete every document matching `where`
+   *
+   * In soft-delete collections, matching documents are marked deleted.
+   *
+   * @returns Per-row results containing the deleted documents
+   * @throws VlibeValidationError if `where` is empty
+   */
+  async deleteMany<T extends BaseRecord>(
+    collection: string,
+    where: WhereClause<T>,
+    requestOptions?: RequestOptions
+  ): Promise<BulkResult<T>> {
+    assertNonEmptyWhere(where, 'deleteMany');
+    validateWhere(where);
+
+    const softDelete = this.softDeleteCollections.has(collection);
+    const response = await this.apiRequest<{ success: boolean; data: BulkResult<T> }>(
+      `/collections/${collection}/bulk`,
+      softDelete
+        ? {
+            method: 'PATCH',
+            body: JSON.stringify({
+              where: this.scopeWhere(collection, where),
+              patch: { deleted_at: new Date().toISOString() },
+            }),
+          }
+        : {
+            method: 'DELETE',
+            body: JSON.stringify({ where }),
+          },
+      requestOptions
+    );
+    this.recordChange(collection, { deletedIds: response.data.data.map((row) => row.id) });
+    return response.data;
+  }
+
+  /**
+   * Count documents in a collection
+   *
+   * @param options - `includeDeleted` to also count soft-deleted documents, or
+   * only them; `cache: false` to bypass the cache
+   * @throws VlibeValidationError if the where clause is malformed
+   */
+  async count<T = Record<string, unknown>>(
+    collection: string,
+    where?: WhereClause<T>,
+    options: CountOptions = {}
+  ): Promise<number> {
+    const params = new URLSearchParams();
+    this.setWhereParam(params, collection, where, options.includeDeleted);
+
+    const queryString = params.toString();
+    const endpoint = `/collections/${collection}/count${queryString ? `?${queryString}` : ''}`;
+
+    return this.cachedRead(`count:${endpoint}`, [collection], options.cache, async () => {
+      const response = await this.apiRequest<{ success: boolean; data: { count: number } }>(
+        endpoint
+      );
+      return response.data.count;
+    });
+  }
+
+  /**
+   * Compute counts, sums, averages, minimums and maximums on the server
+   *
+   * Rows are grouped by the `groupBy` fields and, with `timeBucket`, by a
+   * date field truncated to an interval. Without either, a single group
+   * covers every matching row.
+   *
+   * @example
+   * ```typescript
+   * const daily = await db.aggregate<Order>('orders', {
+   *   where: { status: { $ne: 'cancelled' } },
+   *   groupBy: ['status'],
+   *   metrics: { count: true, sum: ['total'], avg: ['total'] },
+   *   timeBucket: { field: 'created_at', interval: 'day' },
+   * });
+   * // [{ group: { status: 'pending' }, bucket: '2024-05-01T00:00:00.000Z', count: 3, sum: { total: 7500 }, ... }]
+   * ```
+   *
+   * @throws VlibeValidationError if no metric is requested or the where clause is malformed
+   */
+  async aggregate<T = Record<string, unknown>>(
+    collection: string,
+    options: AggregateOptions<T>
+  ): Promise<AggregateRow[]> {
+    const { metrics } = options;
+    const hasMetric =
+      metrics.count ||
+      [metrics.sum, metrics.avg, metrics.min, metrics.max].some((fields) => fields && fields.length > 0);
+    if (!hasMetric) {
+      throw new VlibeValidationError('aggregate() needs at least one metric', [
+        { field: 'metrics', message: 'Request count or at least one sum, avg, min or max field' },
+      ]);
+    }
+
+    const params = new URLSearchParams();
+    this.setWhereParam(params, collection, options.where, options.includeDeleted);
+    if (options.groupBy && options.groupBy.length > 0) {
+      params.set('groupBy', options.groupBy.join(','));
+    }
+    params.set('metrics', JSON.stringify(metrics));
+    if (options.timeBucket) params.set('timeBucket', JSON.stringify(options.timeBucket));
+    if (options.orderBy) params.set('orderBy', options.orderBy);
+    if (options.orderDirection) params.set('orderDirection', options.orderDirection);
+    if (options.limit) params.set('limit', String(options.limit));
+
+    const endpoint = `/collections/${collection}/aggregate?${params.toString()}`;
+
+    return this.cachedRead(`aggregate:${endpoint}`, [collection], options.cache, async () => {
+      const response = await this.apiRequest<{ success: boolean; data: AggregateRow[] }>(endpoint);
+      return response.data;
+    });
+  }
+
+  /**
+   * Full-text search in a collection
+   *
+   * Results are ranked by relevance. Every word of the query must match,
+   * the last one as a prefix so results appear while typing, and words
+   * with small typos still match unless `typoTolerance` is false.
+   *
+   * @param query - Words to search for; an empty query returns no results
+   *
+   * @example
+   * ```typescript
+   * const hits = await db.search<Product>('products', 'blue shrt', {
+   *   fields: ['name', 'description'],
+   *   where: { isActive: true },
+   *   highlight: true,
+   * });
+   * hits[0].highlights?.name; // '<mark>Blue</mark> <mark>Shirt</mark>'
+   * ```
+   *
+   * @throws VlibeValidationError if the where clause is malformed
+   */
+  async search<T extends BaseRecord>(
+    collection: string,
+    query: string,
+    options: SearchOptions<T> = {}
+  ): Promise<SearchHit<T>[]> {
+    if (!query.trim()) return [];
+
+    const params = new URLSearchParams({ q: query.trim() });
+    if (options.fields && options.fields.length > 0) params.set('fields', options.fields.join(','));
+    this.setWhereParam(params, collection, options.where, options.includeDeleted);
+    if (options.limit) params.set('limit', String(options.limit));
+    if (options.highlight) params.set('highlight', JSON.stringify(options.highlight));
+    if (options.typoTolerance === false) params.set('typoTolerance', 'false');
+
+    const endpoint = `/collections/${collection}/search?${params.toString()}`;
+
+    return this.cachedRead(`search:${endpoint}`, [collection], options.cache, async () => {
+      const response = await this.apiRequest<{ success: boolean; data: SearchHit<T>[] }>(endpoint);
+      return response.data;
+    });
+  }
+
+  // ============================================================================
+  // Export and Import
+  // ============================================================================
+
+  /**
+   * Export a collection as JSON, NDJSON or CSV, one chunk of text at a time
+   *
+   * Rows are fetched page by page, so large collections can be written to a
+   * file or HTTP response without holding them in memory.
+   *
+   * @example
+   * ```typescript
+   * const file = fs.createWriteStream('orders.csv');
+   * for await (const chunk of db.exportCollection<Order>('orders', {
+   *   format: 'csv',
+   *   where: { status: 'delivered' },
+   * })) {
+   *   file.write(chunk);
+   * }
+   * ```
+   */
+  async *exportCollection<T extends BaseRecord>(
+    collection: string,
+    options: ExportOptions<T> = {}
+  ): AsyncGenerator<string, void, undefined> {
+    const {
+      format = 'json',
+      columns,
+      pageSize = 500,
+      escapeFormulas = true,
+      ...queryOptions
+    } = options;
+    let header: string[] | undefined = columns;
+    if (format === 'csv') {
+      header = header ?? (await this.exportColumns(collection, options.includeDeleted));
+      if (header) yield formatCsvLine(header, escapeFormulas);
+    }
+
+    let count = 0;
+    for await (const record of this.iterate<T>(collection, { ...queryOptions, pageSize })) {
+      const row = record as unknown as Record<string, unknown>;
+      if (!header && format === 'csv') {
+        // Tables without declared columns take the header from the first row
+        header = Object.keys(row);
+        yield formatCsvLine(header, escapeFormulas);
+      }
+      const fields = columns
+        ? Object.fromEntries(columns.map((column) => [column, row[column] ?? null]))
+        : row;
+      yield formatRow(format, fields, count, header ?? [], escapeFormulas);
+      count++;
+    }
+
+    if (format === 'json') yield formatJsonEnd(count);
+  }
+
+  /**
+   * Import rows from JSON, NDJSON or CSV
+   *
+   * Rows are validated against the collection's declared schema, or the
+   * table's columns, and written in batches. Invalid rows and rows the server
+   * rejects are reported in `errors` without stopping the import; a failed
+   * request stops it, leaving earlier batches written.
+   *
+   * CSV values are converted to the column types; empty fields become null.
+   *
+   * @param source - The file contents, or chunks of text or bytes such as a
+   * Node.js read stream
+   * @throws VlibeValidationError if a JSON source is not an array of objects,
+   * or a CSV source has no header row
+   *
+   * @example
+   * ```typescript
+   * const result = await db.importCollection('products', fs.createReadStream('products.csv'), {
+   *   format: 'csv',
+   *   mode: 'upsert',
+   *   onProgress: ({ processed }) => console.log(`${processed} rows read`),
+   * });
+   * for (const { row, message } of result.errors) console.warn(`row ${row}: ${message}`);
+   * ```
+   */
+  async importCollection(
+    collection: string,
+    source: ImportSource,
+    options: ImportOptions = {}
+  ): Promise<ImportResult> {
+    const {
+      format = 'json',
+      mode = 'insert',
+      conflictKey = 'id',
+      batchSize = 500,
+      unescapeFormulas = true,
+      onProgress,
+    } = options;
+    const definition = await this.importDefinition(collection);
+    const result: ImportResult = { imported: 0, failed: 0, errors: [] };
+    let batch: { row: number; data: Record<string, unknown> }[] = [];
+    let processed = 0;
+    let reported = 0;
+
+    const fail = (row: number, message: string, issues?: ValidationIssue[]) => {
+      result.failed++;
+      result.errors.push(issues ? { row, message, issues } : { row, message });
+    };
+
+    const flush = async () => {
+      if (batch.length > 0) {
+        const rows = batch.map((entry) => entry.data) as Partial<BaseRecord>[];
+        const written =
+          mode === 'upsert'
+            ? await this.upsertMany(collection, rows, conflictKey)
+            : await this.insertMany(collection, rows);
+        for (const outcome of written.results) {
+          if (outcome.success) result.imported++;
+          else fail(batch[outcome.index].row, outcome.error || 'Write failed');
+        }
+        batch = [];
+      }
+      reported = processed;
+      onProgress?.({ processed, imported: result.imported, failed: result.failed });
+    };
+
+    for await (const parsed of parseRows(source, format)) {
+      processed++;
+      if (!parsed.data) {
+        fail(parsed.row, parsed.error || 'Unreadable row');
+        continue;
+      }
+
+      const coerced =
+        format === 'csv'
+          ? coerceCsvRow(parsed.data, definition, unescapeFormulas)
+          : { data: parsed.data, issues: [] };
+      const issues =
+        coerced.issues.length > 0 || !definition
+          ? coerced.issues
+          : getValidationIssues(definition, coerced.data, mode === 'upsert' ? 'update' : 'insert');
+      if (issues.length > 0) {
+        fail(
+          parsed.row,
+          `Invalid row: ${issues.map((issue) => `${issue.field} ${issue.message}`).join(', ')}`,
+          issues
+        );
+        continue;
+      }
+
+      batch.push({ row: parsed.row, data: coerced.data });
+      if (batch.length >= batchSize) await flush();
+    }
+
+    if (batch.length > 0 || processed > reported) await flush();
+    result.errors.sort((a, b) => a.row - b.row);
+    return result;
+  }
+
+  /**
+   * CSV header for an export: the table's columns, or undefined when it has none
+   */
+  private async exportColumns(
+    collection: string,
+    includeDeleted?: boolean | 'only'
+  ): Promise<string[] | undefined> {
+    const table = await this.getTable(collection);
+    if (!table || table.columns.length === 0) return undefined;
+
+    const columns = ['id', ...table.columns.map((column) => column.name), 'created_at', 'updated_at'];
+    if (includeDeleted && this.softDeleteCollections.has(collection)) columns.push('deleted_at');
+    return columns;
+  }
+
+  /**
+   * Columns to validate imported rows against: the declared schema, or the
+   * live table's columns
+   */
+  private async importDefinition(collection: string): Promise<CollectionDefinition | undefined> {
+    const declared = this.schema?.[collection];
+    if (declared) return declared;
+
+    const table = await this.getTable(collection);
+    return table ? columnsDefinition(table.columns) : undefined;
+  }
+
+  // ============================================================================
+  // Audit Log
+  // ============================================================================
+
+  /**
+   * Get a client whose writes are attributed to a user in the audit log
+   *
+   * The returned client shares this one's cache, realtime channels and
+   * offline queue; only the actor differs, so concurrent requests for
+   * different users never attribute each other's writes.
+   *
+   * @param actor - The signed-in user or their ID
+   *
+   * @example
+   * ```typescript
+   * const user = await auth.verifySession(token);
+   * await db.withActor(user).update('contracts', contractId, { status: 'signed' });
+   * ```
+   */
+  withActor(actor: Pick<VlibeUser, 'id'> | string): VlibeBaseDatabase<S> {
+    const client = Object.create(this) as VlibeBaseDatabase<S>;
+    client.actor = typeof actor === 'string' ? actor : actor.id;
+    return client;
+  }
+
+  /**
+   * Get the recorded changes to one document, newest first
+   *
+   * Only tables created or altered with `audit: true` record changes.
+   * History is always fetched from the server.
+   *
+   * @example
+   * ```typescript
+   * const changes = await db.history<Product>('products', productId);
+   * for (const change of changes) {
+   *   console.log(change.timestamp, change.actor, change.operation, change.diff);
+   * }
+   * ```
+   */
+  async history<T extends BaseRecord>(
+    collection: string,
+    id: string,
+    options: { limit?: number } = {}
+  ): Promise<AuditEntry<T>[]> {
+    const params = new URLSearchParams();
+    if (options.limit) params.set('limit', String(options.limit));
+    const queryString = params.toString();
+
+    const response = await this.apiRequest<{ success: boolean; data: AuditEntry<T>[] }>(
+      `/collections/${collection}/${id}/history${queryString ? `?${queryString}` : ''}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Page through recorded changes across every audited table, newest first
+   *
+   * @example
+   * ```typescript
+   * const page = await db.auditLog({ actor: user.id, since: '2024-05-01T00:00:00Z' });
+   * ```
+   */
+  async auditLog(options: AuditLogOptions = {}): Promise<CursorPage<AuditEntry>> {
+    const params = new URLSearchParams();
+    const toIso = (value: string | Date) => (value instanceof Date ? value.toISOString() : value);
+    if (options.since) params.set('since', toIso(options.since));
+    if (options.until) params.set('until', toIso(options.until));
+    if (options.actor) params.set('actor', options.actor);
+    if (options.collection) params.set('collection', options.collection);
+    if (options.operation) params.set('operation', options.operation);
+    if (options.limit) params.set('limit', String(options.limit));
+    if (options.cursor) params.set('cursor', options.cursor);
+    const queryString = params.toString();
+
+    const response = await this.apiRequest<CursorPaginatedResponse<AuditEntry>>(
+      `/audit${queryString ? `?${queryString}` : ''}`
+    );
+    return {
+      data: response.data,
+      nextCursor: response.nextCursor ?? null,
+      hasMore: response.hasMore && !!response.nextCursor,
+    };
+  }
+
+  /**
+   * Put a document back in the state it had at a point in time
+   *
+   * The revert is itself recorded as a change. A document that did not
+   * exist at that time, or had been deleted, is deleted.
+   *
+   * @returns The document as restored, or null if it was deleted
+   * @throws VlibeApiError if the table is not audited or has no history for
+   * the document at that time
+   */
+  async revert<T extends BaseRecord>(
+    collection: string,
+    id: string,
+    at: string | Date
+  ): Promise<T | null> {
+    const response = await this.apiRequest<{ success: boolean; data: T | null }>(
+      `/collections/${collection}/${id}/revert`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ at: at instanceof Date ? at.toISOString() : at }),
+      }
+    );
+    this.recordChange(
+      collection,
+      response.data ? { upserted: [response.data] } : { deletedIds: [id] }
+    );
+    return response.data;
+  }
+
+  // ============================================================================
+  // Offline Mode
+  // ============================================================================
+
+  /**
+   * Send writes queued while offline
+   *
+   * Writes are replayed in the order they were made. An update or delete of
+   * a row that changed on the server since it was last read is a conflict,
+   * resolved with the configured `conflictResolution`. Writes the server
+   * rejects with a 4xx error are dropped and reported in `failed`. If the
+   * server cannot be reached or fails with a transient error, the remaining
+   * writes stay queued.
+   *
+   * Runs on its own when the browser comes back online and when a realtime
+   * subscription reconnects; concurrent calls share one sync.
+   *
+   * @throws VlibeError if offline mode is not enabled
+   *
+   * @example
+   * ```typescript
+   * const result = await db.sync();
+   * if (result.failed.length > 0) notifyRejected(result.failed);
+   * ```
+   */
+  async sync(): Promise<SyncResult> {
+    const store = this.offline;
+    if (!store) {
+      throw new VlibeError('Offline mode is not enabled; pass offline in the database config');
+    }
+    if (!store.syncing) {
+      store.syncing = this.replayPending(store).finally(() => {
+        store.syncing = null;
+      });
+    }
+    return store.syncing;
+  }
+
+  /**
+   * Writes waiting to be sent, oldest first
+   *
+   * @returns An empty list if offline mode is not enabled
+   */
+  async getPendingWrites(): Promise<PendingMutation[]> {
+    return this.offline ? this.offline.pending() : [];
+  }
+
+  /**
+   * Turn offline mode off; requests go straight to the server again
+   *
+   * Writes still queued stay in the offline storage, and are sent by the
+   * next client created with the same storage.
+   */
+  disableOffline(): void {
+    if (this.onlineListener) window.removeEventListener('online', this.onlineListener);
+    this.onlineListener = null;
+    if (this.offline?.retryTimer) clearTimeout(this.offline.retryTimer);
+    this.offline = null;
+  }
+
+  private enableOffline(config: OfflineConfig): void {
+    this.offline = new VlibeBaseOfflineStore(
+      config.storage || indexedDBStorage(),
+      `vlibe:${this.projectId}`
+    );
+    if (typeof config.conflictResolution === 'function') {
+      this.resolveConflict = config.conflictResolution;
+    }
+    this.onSync = config.onSync;
+    this.syncRetryPolicy =
+      config.retry === false
+        ? null
+        : { ...DEFAULT_RETRY_POLICY, maxAttempts: Infinity, ...config.retry };
+
+    if (typeof window !== 'undefined') {
+      this.onlineListener = () => this.syncInBackground();
+      window.addEventListener('online', this.onlineListener);
+    }
+    // Writes queued before a reload are sent once the client is set up
+    queueMicrotask(() => this.syncInBackground());
+  }
+
+  private syncInBackground(): void {
+    const store = this.offline;
+    if (!store) return;
+    this.sync().then(
+      (result) => {
+        if (result.applied + result.conflicts + result.failed.length > 0) this.onSync?.(result);
+        if (result.pending > 0 || !store.online) {
+          this.scheduleSyncRetry(store);
+        } else {
+          store.retryAttempt = 0;
+        }
+      },
+      () => this.scheduleSyncRetry(store)
+    );
+  }
+
+  /**
+   * Sync again after a backoff delay, unless a retry is already scheduled
+   */
+  private scheduleSyncRetry(store: VlibeBaseOfflineStore): void {
+    const policy = this.syncRetryPolicy;
+    if (!policy || store.retryTimer || store.retryAttempt >= policy.maxAttempts) return;
+    store.retryAttempt++;
+    store.retryTimer = setTimeout(() => {
+      store.retryTimer = null;
+      this.syncInBackground();
+    }, getRetryDelay(policy, store.retryAttempt, undefined));
+  }
+
+  /**
+   * Send a write, or queue it while the server cannot be reached
+   *
+   * Writes are also queued while earlier ones are waiting, so they reach
+   * the server in order. Transactions always go to the server.
+   */
+  private async writeThrough(
+    mutation: Omit<PendingMutation, 'base' | 'timestamp'>,
+    send: () => Promise<BaseRecord | null>
+  ): Promise<BaseRecord | null> {
+    const store = this.offline;
+    if (!store || this.replaying || this.activeTransaction) return send();
+
+    if (store.online && (await store.pending()).length === 0) {
+      try {
+        const row = await send();
+        if (row) await store.putRecords(mutation.collection, [row]);
+        else await store.removeRecords(mutation.collection, [mutation.recordId]);
+        return row;
+      } catch (error) {
+        if (!(error instanceof VlibeNetworkError)) throw error;
+        store.online = false;
+      }
+    }
+    const queued = await this.queueWrite(store, mutation);
+    this.scheduleSyncRetry(store);
+    return queued;
+  }
+
+  /**
+   * Queue a write and apply it to the replica, the cache and subscribers
+   *
+   * @returns The row as it will look once the write is sent, or null for a delete
+   */
+  private async queueWrite(
+    store: VlibeBaseOfflineStore,
+    mutation: Omit<PendingMutation, 'base' | 'timestamp'>
+  ): Promise<BaseRecord | null> {
+    const { collection, recordId } = mutation;
+    const timestamp = new Date().toISOString();
+    const current = await store.getRecord(collection, recordId);
+    // Conflicts are judged against the row as it was before the first queued write
+    const earlier = (await store.pending()).find(
+      (queued) => queued.collection === collection && queued.recordId === recordId
+    );
+    const base = earlier ? earlier.base : mutation.type === 'insert' ? null : current;
+    await store.enqueue({ ...mutation, base, timestamp, actor: this.actor });
+
+    const row =
+      mutation.type === 'insert'
+        ? ({ ...mutation.data, id: recordId, created_at: timestamp, updated_at: timestamp } as BaseRecord)
+        : mutation.type === 'update'
+          ? ({ ...(current || { id: recordId }), ...mutation.data, updated_at: timestamp } as BaseRecord)
+          : null;
+
+    if (row) {
+      await store.putRecords(collection, [row]);
+      this.recordChange(collection, { upserted: [row] });
+    } else {
+      await store.removeRecords(collection, [recordId]);
+      this.recordChange(collection, { deletedIds: [recordId] });
+    }
+    this.collectionChannels.get(collection)?.deliver({
+      eventType: mutation.type === 'insert' ? 'INSERT' : row ? 'UPDATE' : 'DELETE',
+      new: row,
+      old: mutation.type === 'insert' ? null : current || ({ id: recordId } as BaseRecord),
+      table: collection,
+    });
+    return row;
+  }
+
+  /**
+   * Read from the server and keep the rows in the replica, or read from the
+   * replica while the server cannot be reached or writes are waiting
+   *
+   * Reads with `include` always go to the server.
+   */
+  private async readThrough<T extends BaseRecord>(
+    collection: string,
+    options: QueryOptions,
+    read: () => Promise<T[]>
+  ): Promise<T[]> {
+    const store = this.offline;
+    if (!store || this.replaying || this.activeTransaction || options.include) return read();
+
+    if (store.online && (await store.pending()).length === 0) {
+      try {
+        const rows = await read();
+        if (!isProjected(options)) {
+          if (options.limit === undefined && !options.offset) {
+            await store.replaceMatching(collection, options.where, rows);
+          } else {
+            await store.putRecords(collection, rows);
+          }
+        }
+        return rows;
+      } catch (error) {
+        if (!(error instanceof VlibeNetworkError)) throw error;
+        store.online = false;
+      }
+    }
+
+    const hideDeleted = this.softDeleteCollections.has(collection) && !options.includeDeleted;
+    return (await store.query(
+      collection,
+      options,
+      hideDeleted ? (row) => !isDeleted(row) : undefined
+    )) as T[];
+  }
+
+  private async replayPending(store: VlibeBaseOfflineStore): Promise<SyncResult> {
+    store.online = true;
+    const direct = Object.create(this) as VlibeBaseDatabase<S>;
+    direct.replaying = true;
+
+    const result: SyncResult = { applied: 0, conflicts: 0, failed: [], pending: 0 };
+    // `updated_at` of rows this sync already wrote, so later writes to them do not conflict
+    const written = new Map<string, string | null>();
+
+    // Writes queued while the sync runs are sent too, until the queue is empty
+    for (;;) {
+      const [mutation] = await store.pending();
+      if (!mutation) break;
+      try {
+        direct.actor = mutation.actor ?? null;
+        await direct.replayMutation(store, mutation, written, result);
+      } catch (error) {
+        // Left queued for the next sync, unless the server rejected the write
+        if (isRetryableError(error)) {
+          if (error instanceof VlibeNetworkError) store.online = false;
+          break;
+        }
+        result.failed.push({
+          mutation,
+          error: error instanceof Error ? error : new VlibeError(String(error)),
+        });
+        // The next read fetches the row as the server has it
+        await store.removeRecords(mutation.collection, [mutation.recordId]);
+        this.recordChange(mutation.collection);
+      }
+      await store.dequeue(mutation.id);
+    }
+
+    result.pending = (await store.pending()).length;
+    return result;
+  }
+
+  private async replayMutation(
+    store: VlibeBaseOfflineStore,
+    mutation: PendingMutation,
+    written: Map<string, string | null>,
+    result: SyncResult
+  ): Promise<void> {
+    const { collection, recordId } = mutation;
+    const key = `${collection}:${recordId}`;
+    const save = async (row: BaseRecord | null) => {
+      written.set(key, row?.updated_at ?? null);
+      if (row) await store.putRecords(collection, [row]);
+      else await store.removeRecords(collection, [recordId]);
+    };
+
+    if (mutation.type === 'insert') {
+      await save(await this.insert(collection, mutation.data!, { idempotencyKey: mutation.id }));
+      result.applied++;
+      return;
+    }
+
+    const remote = await this.get(collection, recordId, { cache: false, includeDeleted: true });
+    const expected = written.has(key) ? written.get(key) : mutation.base?.updated_at;
+    if (expected === undefined || remote?.updated_at === expected) {
+      if (mutation.type === 'update') {
+        await save(await this.update(collection, recordId, mutation.data!));
+      } else {
+        if (remote && !isDeleted(remote)) await this.delete(collection, recordId);
+        await save(null);
+      }
+      result.applied++;
+      return;
+    }
+
+    result.conflicts++;
+    const local =
+      mutation.type === 'update'
+        ? ({ ...(mutation.base || remote), ...mutation.data, updated_at: mutation.timestamp } as BaseRecord)
+        : null;
+    const resolved = await this.resolveConflict({ mutation, local, remote });
+
+    if (!resolved) {
+      if (remote && !isDeleted(remote)) await this.delete(collection, recordId);
+      await save(null);
+    } else if (resolved === remote) {
+      await save(remote);
+    } else {
+      const { id: _id, created_at: _createdAt, updated_at: _updatedAt, ...fields } = resolved;
+      await save(
+        remote
+          ? await this.update(collection, recordId, fields)
+          : await this.insert(collection, { ...fields, id: recordId })
+      );
+    }
+  }
+
+  // ============================================================================
+  // User Sessions
+  // ============================================================================
+
+  /**
+   * Get a client that acts as a signed-in user
+   *
+   * The session is verified by the server, which then limits every request
+   * from the returned client to the user's own rows in tables with an
+   * `ownerField`: queries, counts, aggregates, searches and includes only see
+   * those rows, updates and deletes of other rows fail as not found, and
+   * inserts are given the user as owner. Realtime events for other users'
+   * rows are dropped. Table changes and the project-wide audit log are not
+   * available. Writes are attributed to the user in the audit log.
+   *
+   * The client has its own cache and realtime channels. Create one per
+   * request on the server, where the database token stays secret.
+   *
+   * @param sessionToken - The user's Vlibe session token
+   * @throws VlibeValidationError if the token is empty
+   * @throws VlibeAuthError if the session is invalid or expired
+   *
+   * @example
+   * ```typescript
+   * await db.createTable('carts', { columns: [...], ownerField: 'userId' });
+   *
+   * // In an API route
+   * const userDb = await db.forUser(request.cookies.get('vlibe_session')!.value);
+   * const cart = await userDb.query('carts'); // only this user's rows
+   * await userDb.insert('carts', { productId, quantity: 1 }); // userId is filled in
+   * ```
    */
-  async count(collection: string, where?: Record<string, unknown>): Promise<number> {
-    const params = new URLSearchParams();
-    if (where) params.set('where', JSON.stringify(where));
+  async forUser(sessionToken: string): Promise<VlibeBaseDatabase<S>> {
+    if (!sessionToken) {
+      throw new VlibeValidationError('forUser requires a session token', [
+        { field: 'sessionToken', message: 'sessionToken is required' },
+      ]);
+    }
 
-    const queryString = params.toString();
-    const endpoint = `/collections/${collection}/count${queryString ? `?${queryString}` : ''}`;
+    const response = await this.apiRequest<{
+      success: boolean;
+      data: { user: VlibeUser; ownership: Record<string, string> };
+    }>('/session', { headers: { 'X-Vlibe-Session': sessionToken } });
+
+    const client = Object.create(this) as VlibeBaseDatabase<S>;
+    client.session = { token: sessionToken, ...response.data };
+    client.actor = null;
+    client.cache = this.cache?.fork() ?? null;
+    client.collectionChannels = new Map();
+    client.namedChannels = new Map();
+    client.offline = null;
+    return client;
+  }
+
+  // ============================================================================
+  // Transactions
+  // ============================================================================
+
+  /**
+   * Run several operations atomically
+   *
+   * Every call made through `tx` joins a server-side transaction. The
+   * transaction commits when the callback resolves and rolls back when it
+   * throws, so either all writes are applied or none are.
+   *
+   * @param fn - Callback receiving the transaction handle
+   * @param options - `timeoutMs` after which the server aborts the transaction
+   * @returns The value returned by the callback
+   *
+   * @example
+   * ```typescript
+   * const order = await db.transaction(async (tx) => {
+   *   const order = await tx.insert('orders', { userId, total });
+   *   await tx.insertMany('order_items', items.map((i) => ({ ...i, orderId: order.id })));
+   *   return order;
+   * });
+   * ```
+   */
+  async transaction<R>(
+    fn: (tx: DatabaseTransaction) => Promise<R>,
+    options: { timeoutMs?: number } = {}
+  ): Promise<R> {
+    if (this.activeTransaction) {
+      throw new VlibeError('Nested transactions are not supported');
+    }
 
-    const response = await this.apiRequest<{ success: boolean; data: { count: number } }>(
-      endpoint
+    const response = await this.apiRequest<{ success: boolean; data: { transactionId: string } }>(
+      '/transactions',
+      {
+        method: 'POST',
+        body: JSON.stringify({ timeoutMs: options.timeoutMs }),
+      }
     );
-    return response.data.count;
+    const transactionId = response.data.transactionId;
+
+    const tx = Object.create(this) as VlibeBaseDatabase;
+    tx.activeTransaction = { id: transactionId, completed: false };
+
+    let result: R;
+    try {
+      result = await fn(tx);
+    } catch (error) {
+      tx.activeTransaction.completed = true;
+      try {
+        await this.apiRequest(`/transactions/${transactionId}/rollback`, { method: 'POST' });
+      } catch {
+        // The server aborts abandoned transactions; surface the original error
+      }
+      throw error;
+    }
+
+    tx.activeTransaction.completed = true;
+    await this.apiRequest(`/transactions/${transactionId}/commit`, { method: 'POST' });
+    // Writes made through tx were not applied to the cache
+    this.cache?.invalidate();
+    return result;
   }
 
   // ============================================================================
@@ -303,25 +2195,40 @@ export class VlibeBaseDatabase {
 
   /**
    * Set a key-value pair
+   *
+   * @param options - `ttlSeconds` after which the key expires; without it the key never expires
    */
-  async setKV<T = unknown>(key: string, value: T): Promise<void> {
+  async setKV<T = unknown>(key: string, value: T, options: KVSetOptions = {}): Promise<void> {
     await this.apiRequest('/kv', {
       method: 'POST',
-      body: JSON.stringify({ key, value }),
+      body: JSON.stringify({ key, value, ttlSeconds: options.ttlSeconds }),
     });
   }
 
   /**
    * Get a value by key
+   *
+   * @returns The value, or null if the key does not exist or has expired
    */
   async getKV<T = unknown>(key: string): Promise<T | null> {
+    const entry = await this.getKVEntry<T>(key);
+    return entry ? entry.value : null;
+  }
+
+  /**
+   * Get a value with its version and expiry
+   *
+   * @returns The entry, or null if the key does not exist or has expired
+   */
+  async getKVEntry<T = unknown>(key: string): Promise<KVEntry<T> | null> {
     try {
-      const response = await this.apiRequest<{ success: boolean; data: { value: T } }>(
-        `/kv/${key}`
+      const response = await this.apiRequest<{ success: boolean; data: KVEntry<T> }>(
+        `/kv/${encodeURIComponent(key)}`
       );
-      return response.data.value;
-    } catch {
-      return null;
+      return response.data;
+    } catch (error) {
+      if (error instanceof VlibeNotFoundError) return null;
+      throw error;
     }
   }
 
@@ -329,69 +2236,733 @@ export class VlibeBaseDatabase {
    * Delete a key-value pair
    */
   async deleteKV(key: string): Promise<boolean> {
-    await this.apiRequest(`/kv/${key}`, { method: 'DELETE' });
+    await this.apiRequest(`/kv/${encodeURIComponent(key)}`, { method: 'DELETE' });
     return true;
   }
 
+  /**
+   * Atomically add to a numeric value
+   *
+   * A missing key starts at 0. `ttlSeconds` only applies when the counter is
+   * created, which makes fixed-window rate limits simple.
+   *
+   * @returns The new value
+   * @throws VlibeValidationError if the current value is not a number
+   *
+   * @example
+   * ```typescript
+   * const requests = await db.incrementKV(`rate:${ip}:${minute}`, 1, { ttlSeconds: 60 });
+   * if (requests > 100) throw new Error('Too many requests');
+   * ```
+   */
+  async incrementKV(key: string, by: number = 1, options: KVSetOptions = {}): Promise<number> {
+    const response = await this.apiRequest<{ success: boolean; data: KVEntry<number> }>(
+      `/kv/${encodeURIComponent(key)}/increment`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ by, ttlSeconds: options.ttlSeconds }),
+      }
+    );
+    return response.data.value;
+  }
+
+  /**
+   * Write a value only if the key is still at the expected version
+   *
+   * Read the version with `getKVEntry`. Pass `null` to write only if the key
+   * does not exist, e.g. to acquire a lock.
+   *
+   * @example
+   * ```typescript
+   * const { swapped } = await db.compareAndSetKV('lock:import', null, workerId, { ttlSeconds: 30 });
+   * if (!swapped) return; // another worker holds the lock
+   * ```
+   */
+  async compareAndSetKV<T = unknown>(
+    key: string,
+    expectedVersion: number | null,
+    value: T,
+    options: KVSetOptions = {}
+  ): Promise<KVCompareAndSetResult> {
+    const response = await this.apiRequest<{ success: boolean; data: KVCompareAndSetResult }>(
+      `/kv/${encodeURIComponent(key)}/compare-and-set`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ expectedVersion, value, ttlSeconds: options.ttlSeconds }),
+      }
+    );
+    return response.data;
+  }
+
+  /**
+   * Get several values in one request
+   *
+   * @returns Values by key; missing or expired keys map to null
+   */
+  async getManyKV<T = unknown>(keys: string[]): Promise<Record<string, T | null>> {
+    if (keys.length === 0) return {};
+    const params = new URLSearchParams({ keys: JSON.stringify(keys) });
+    const response = await this.apiRequest<{ success: boolean; data: Record<string, T | null> }>(
+      `/kv?${params.toString()}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Set several key-value pairs in one request
+   */
+  async setManyKV<T = unknown>(
+    entries: Array<{ key: string; value: T } & KVSetOptions>
+  ): Promise<void> {
+    if (entries.length === 0) return;
+    await this.apiRequest('/kv', {
+      method: 'PUT',
+      body: JSON.stringify({ entries }),
+    });
+  }
+
+  /**
+   * List keys in order, one page at a time
+   *
+   * @example
+   * ```typescript
+   * let page = await db.listKV({ prefix: 'session:' });
+   * while (page.hasMore) {
+   *   page = await db.listKV({ prefix: 'session:', cursor: page.nextCursor });
+   * }
+   * ```
+   */
+  async listKV<T = unknown>(options: KVListOptions = {}): Promise<CursorPage<KVEntry<T>>> {
+    const params = new URLSearchParams();
+    if (options.prefix) params.set('prefix', options.prefix);
+    if (options.cursor) params.set('cursor', options.cursor);
+    if (options.limit) params.set('limit', String(options.limit));
+
+    const queryString = params.toString();
+    const response = await this.apiRequest<CursorPaginatedResponse<KVEntry<T>>>(
+      `/kv${queryString ? `?${queryString}` : ''}`
+    );
+    return {
+      data: response.data,
+      nextCursor: response.nextCursor ?? null,
+      hasMore: response.hasMore && !!response.nextCursor,
+    };
+  }
+
+  // ============================================================================
+  // Snapshots
+  // ============================================================================
+
+  /**
+   * Capture every table's schema and rows, and the key-value store
+   *
+   * Tables are read one after another, so writes made while the snapshot
+   * is taken may be partially included. Audit history is not captured.
+   *
+   * @throws VlibeValidationError if `tables` names a table that does not exist
+   *
+   * @example
+   * ```typescript
+   * const snapshot = await db.createSnapshot();
+   * await fs.promises.writeFile('backup.json', JSON.stringify(snapshot));
+   * ```
+   */
+  async createSnapshot(options: CreateSnapshotOptions = {}): Promise<ProjectSnapshot> {
+    const tables = await this.listTables();
+    const selected = selectTables(tables, options.tables, 'project');
+    const snapshot: ProjectSnapshot = {
+      version: 1,
+      projectId: this.projectId,
+      createdAt: new Date().toISOString(),
+      tables: [],
+      kv: [],
+    };
+
+    for (const table of selected) {
+      const rows: BaseRecord[] = [];
+      for await (const row of this.iterate<BaseRecord>(table.name, {
+        pageSize: 500,
+        includeDeleted: true,
+      })) {
+        rows.push(row);
+      }
+      snapshot.tables.push({
+        name: table.name,
+        schema: {
+          columns: table.columns,
+          ...(table.relations ? { relations: table.relations } : {}),
+          ...(table.audit ? { audit: true } : {}),
+          ...(table.ownerField ? { ownerField: table.ownerField } : {}),
+        },
+        rows,
+      });
+    }
+
+    if (options.kv !== false) {
+      let cursor: string | null = null;
+      do {
+        const page: CursorPage<KVEntry> = await this.listKV({ cursor, limit: 500 });
+        for (const { key, value, expiresAt } of page.data) {
+          snapshot.kv.push({ key, value, expiresAt });
+        }
+        cursor = page.hasMore ? page.nextCursor : null;
+      } while (cursor);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Recreate tables and key-value pairs from a snapshot
+   *
+   * Works on the project this client is connected to, which can differ from
+   * the one the snapshot was taken from. Rows keep their IDs and timestamps;
+   * snapshot keys overwrite existing ones, other keys are left alone.
+   *
+   * Every row is checked against its table's schema before any table is
+   * dropped, so a snapshot with invalid rows leaves the project untouched.
+   * Tables are then restored one after another, not atomically: if a write
+   * still fails, tables restored before it stay in place.
+   *
+   * @throws VlibeError if a table already exists and `dropExisting` is not set
+   * @throws VlibeValidationError if the snapshot version is not supported,
+   * `tables` names a table the snapshot does not contain, or a row does not
+   * match its table's schema
+   *
+   * @example
+   * ```typescript
+   * const staging = new VlibeBaseDatabase({ projectId: STAGING_ID, databaseToken: STAGING_TOKEN });
+   * await staging.restoreSnapshot(await production.createSnapshot(), { dropExisting: true });
+   * ```
+   */
+  async restoreSnapshot(
+    snapshot: ProjectSnapshot,
+    options: RestoreSnapshotOptions = {}
+  ): Promise<RestoreSnapshotResult> {
+    const { dropExisting = false, kv = true, batchSize = 500 } = options;
+    if (snapshot.version !== 1) {
+      throw new VlibeValidationError(`Unsupported snapshot version: ${snapshot.version}`, [
+        { field: 'version', message: 'expected 1' },
+      ]);
+    }
+
+    const tables = selectTables(snapshot.tables, options.tables, 'snapshot');
+    const existing = new Set((await this.listTables()).map((table) => table.name));
+    const conflicts = tables.filter((table) => existing.has(table.name)).map((table) => table.name);
+    if (conflicts.length > 0 && !dropExisting) {
+      throw new VlibeError(
+        `Tables already exist: ${conflicts.join(', ')}. Pass dropExisting: true to replace them`
+      );
+    }
+
+    const issues = tables.flatMap(snapshotIssues);
+    if (issues.length > 0) {
+      throw new VlibeValidationError(
+        `Snapshot rows do not match their tables: ${issues.length} issue(s) found`,
+        issues
+      );
+    }
+
+    const result: RestoreSnapshotResult = { tables: [], rows: 0, kvEntries: 0 };
+    for (const table of tables) {
+      if (existing.has(table.name)) await this.deleteTable(table.name);
+      await this.createTable(table.name, table.schema);
+      result.tables.push(table.name);
+
+      for (let start = 0; start < table.rows.length; start += batchSize) {
+        const written = await this.insertMany(table.name, table.rows.slice(start, start + batchSize));
+        if (written.errorCount > 0) {
+          const failure = written.results.find((outcome) => !outcome.success);
+          throw new VlibeError(
+            `Failed to restore ${written.errorCount} row(s) into ${table.name}: ${failure?.error}`
+          );
+        }
+        result.rows += written.successCount;
+      }
+    }
+
+    if (kv) {
+      const now = Date.now();
+      const entries = snapshot.kv.flatMap(({ key, value, expiresAt }) => {
+        if (!expiresAt) return [{ key, value }];
+        const ttlSeconds = Math.ceil((Date.parse(expiresAt) - now) / 1000);
+        return ttlSeconds > 0 ? [{ key, value, ttlSeconds }] : [];
+      });
+      for (let start = 0; start < entries.length; start += batchSize) {
+        await this.setManyKV(entries.slice(start, start + batchSize));
+      }
+      result.kvEntries = entries.length;
+    }
+
+    return result;
+  }
+
   // ============================================================================
   // Real-time Subscriptions
   // ============================================================================
 
   /**
    * Subscribe to real-time changes on a collection
+   *
+   * Subscriptions to the same collection share one channel, which is closed
+   * when the last of them unsubscribes. Dropped channels reconnect with
+   * backoff, and rows changed while disconnected are delivered as
+   * INSERT/UPDATE events once the channel reopens. Soft deletes are
+   * replayed too; permanent deletes made while disconnected are not.
+   *
+   * @param options - Only deliver some event types, or changes to rows matching `where`
+   * @throws VlibeValidationError if the where clause is malformed
+   *
+   * @example
+   * ```typescript
+   * const subscription = db.subscribe<Todo>(
+   *   'todos',
+   *   (payload) => console.log(payload.eventType, payload.new),
+   *   { event: ['INSERT', 'UPDATE'], where: { userId: user.id } }
+   * );
+   * subscription.onStatusChange((status) => console.log('realtime', status));
+   * subscription.unsubscribe();
+   * ```
    */
   subscribe<T extends BaseRecord>(
     collection: string,
-    callback: (payload: RealtimePayload<T>) => void
-  ): Subscription {
-    this.initSupabase();
+    callback: (payload: RealtimePayload<T>) => void,
+    options: SubscribeOptions<T> = {}
+  ): RealtimeSubscription {
+    if (options.where) validateWhere(options.where);
+
+    const listener: RealtimeListener = {
+      callback: callback as (payload: RealtimePayload<BaseRecord>) => void,
+      events: options.event
+        ? new Set(Array.isArray(options.event) ? options.event : [options.event])
+        : null,
+      where: options.where as WhereClause | undefined,
+      hideDeleted: this.softDeleteCollections.has(collection) && !options.includeDeleted,
+      statusCallbacks: new Set(),
+    };
+
+    let channel = this.collectionChannels.get(collection);
+    if (!channel) {
+      channel = this.openCollectionChannel(collection);
+      this.collectionChannels.set(collection, channel);
+    }
+    channel.listeners.add(listener);
+
+    let active = true;
+    const subscribedChannel = channel;
+    return {
+      get status() {
+        return subscribedChannel.status;
+      },
+      onStatusChange: (statusCallback) => {
+        listener.statusCallbacks.add(statusCallback);
+        return () => {
+          listener.statusCallbacks.delete(statusCallback);
+        };
+      },
+      unsubscribe: () => {
+        if (!active) return;
+        active = false;
+        listener.statusCallbacks.clear();
+        subscribedChannel.listeners.delete(listener);
+        if (
+          subscribedChannel.listeners.size === 0 &&
+          this.collectionChannels.get(collection) === subscribedChannel
+        ) {
+          subscribedChannel.close();
+          this.collectionChannels.delete(collection);
+        }
+      },
+    };
+  }
+
+  /**
+   * Open the realtime channel for a collection
+   *
+   * Every event updates the query cache once, then goes to the matching
+   * listeners. When the source drops, the channel reconnects with backoff
+   * and resyncs once it is open again.
+   */
+  private openCollectionChannel(collection: string): CollectionChannel {
+    const channel: CollectionChannel = {
+      listeners: new Set(),
+      status: 'connecting',
+      lastSeen: null,
+      deliver: () => {},
+      close: () => {},
+    };
+
+    const ownerField = this.session?.ownership[collection];
+    const dispatch = (event: RealtimePayload<BaseRecord>) => {
+      const payload = ownerField ? scopeToOwner(event, ownerField, this.session!.user.id) : event;
+      if (!payload) return;
+
+      const updatedAt = payload.new?.updated_at;
+      if (updatedAt && (!channel.lastSeen || updatedAt > channel.lastSeen)) {
+        channel.lastSeen = updatedAt;
+      }
+
+      this.recordChange(
+        collection,
+        payload.eventType === 'DELETE'
+          ? { deletedIds: payload.old ? [payload.old.id] : [] }
+          : { upserted: payload.new ? [payload.new] : [] }
+      );
+      channel.deliver(payload);
+    };
+
+    channel.deliver = (payload) => {
+      const visible = hideSoftDeletes(payload);
+      for (const listener of [...channel.listeners]) {
+        const delivered = listener.hideDeleted ? visible : payload;
+        if (delivered && shouldDeliver(listener, delivered)) listener.callback(delivered);
+      }
+    };
+
+    let closed = false;
+    let wasOpen = false;
+    let attempt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let closeSource: (() => void) | null = null;
+    let seeding: Promise<void> = Promise.resolve();
+
+    const setStatus = (status: RealtimeStatus, error?: Error) => {
+      channel.status = status;
+      for (const listener of [...channel.listeners]) {
+        for (const statusCallback of [...listener.statusCallbacks]) {
+          statusCallback(status, error);
+        }
+      }
+    };
+
+    const connect = () => {
+      if (channel.status !== 'connecting') setStatus('connecting');
+      closeSource = this.connectRealtimeSource(collection, dispatch, handleSourceStatus);
+    };
+
+    const scheduleReconnect = () => {
+      const policy = this.reconnectPolicy;
+      if (closed || reconnectTimer || !policy || attempt >= policy.maxAttempts) return;
+      closeSource?.();
+      closeSource = null;
+      attempt++;
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = undefined;
+        connect();
+      }, getRetryDelay(policy, attempt, undefined));
+    };
+
+    const handleSourceStatus: SourceStatusHandler = (status, error) => {
+      if (closed) return;
+      if (status !== 'open') {
+        setStatus(status, error);
+        scheduleReconnect();
+        return;
+      }
+
+      attempt = 0;
+      // Rows changed before the first open are covered by the caller's own reads
+      if (!wasOpen) seeding = this.seedLastSeen(collection, channel).catch(() => {});
+      setStatus('open');
+      // A working connection is a good moment to send queued writes
+      if (wasOpen) this.syncInBackground();
+      if (wasOpen && this.resyncOnReconnect) {
+        const resync = async () => {
+          await seeding;
+          // Without a starting point every row is delivered rather than risk missing one
+          await this.resyncCollection(collection, channel.lastSeen ?? RESYNC_FROM_START, dispatch);
+        };
+        resync().catch((resyncError) => {
+          if (closed) return;
+          setStatus(
+            'error',
+            resyncError instanceof Error ? resyncError : new VlibeError(String(resyncError))
+          );
+          scheduleReconnect();
+        });
+      }
+      wasOpen = true;
+    };
+
+    channel.close = () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      closeSource?.();
+      closeSource = null;
+    };
+
+    connect();
+    return channel;
+  }
+
+  /**
+   * Start a channel's resync point at the collection's latest change on the server
+   *
+   * The server's `updated_at` is used instead of the client clock, which can
+   * be ahead of the server and would make the first resync skip rows.
+   */
+  private async seedLastSeen(collection: string, channel: CollectionChannel): Promise<void> {
+    const [latest] = await this.query<BaseRecord>(collection, {
+      orderBy: 'updated_at',
+      orderDirection: 'desc',
+      limit: 1,
+      includeDeleted: true,
+      cache: false,
+    });
+    if (!channel.lastSeen) channel.lastSeen = latest?.updated_at ?? RESYNC_FROM_START;
+  }
+
+  /**
+   * Connect a collection to the local backend or to Supabase realtime
+   *
+   * @returns A function that disconnects; no callbacks are made afterwards
+   */
+  private connectRealtimeSource(
+    collection: string,
+    dispatch: (payload: RealtimePayload<BaseRecord>) => void,
+    onStatus: SourceStatusHandler
+  ): () => void {
+    if (this.localBackend) {
+      const subscription = this.localBackend.subscribe(
+        this.projectId,
+        collection,
+        dispatch,
+        onStatus
+      );
+      return () => subscription.unsubscribe();
+    }
 
-    const channelName = `base:${this.projectId}:${collection}`;
-    const tableName = this.getFullTableName(collection);
+    this.initSupabase();
 
-    const channel = this.supabase!.channel(channelName)
+    let stopped = false;
+    const realtimeChannel = this.supabase!.channel(`base:${this.projectId}:${collection}`)
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
-          table: tableName,
+          table: this.getFullTableName(collection),
         },
         (payload) => {
-          callback({
-            eventType: payload.eventType as 'INSERT' | 'UPDATE' | 'DELETE',
-            new: payload.new as T | null,
-            old: payload.old as T | null,
+          if (stopped) return;
+          // Supabase sends `{}` for the missing side of inserts and deletes
+          const toRecord = (row: Record<string, unknown>) =>
+            row && Object.keys(row).length > 0 ? (row as unknown as BaseRecord) : null;
+          dispatch({
+            eventType: payload.eventType as RealtimeEvent,
+            new: toRecord(payload.new),
+            old: toRecord(payload.old),
             table: collection,
           });
         }
       )
-      .subscribe();
+      .subscribe((status, error) => {
+        if (stopped) return;
+        if (status === 'SUBSCRIBED') {
+          onStatus('open');
+        } else if (status === 'CLOSED') {
+          onStatus('closed');
+        } else {
+          onStatus(
+            'error',
+            new VlibeNetworkError(
+              `Realtime channel for ${collection} failed: ${status}`,
+              `realtime:${collection}`,
+              error
+            )
+          );
+        }
+      });
+
+    return () => {
+      stopped = true;
+      this.supabase?.removeChannel(realtimeChannel);
+    };
+  }
+
+  /**
+   * Deliver rows changed since `since` as INSERT/UPDATE events
+   *
+   * Rows changed in the same millisecond as `since` are included, so the last
+   * row seen before disconnecting may be delivered again.
+   */
+  private async resyncCollection(
+    collection: string,
+    since: string,
+    dispatch: (payload: RealtimePayload<BaseRecord>) => void
+  ): Promise<void> {
+    const changed = this.iterate<BaseRecord>(collection, {
+      where: { updated_at: { $gte: since } },
+      includeDeleted: true,
+      orderBy: 'updated_at',
+      orderDirection: 'asc',
+    });
+    for await (const row of changed) {
+      dispatch({
+        eventType: row.created_at > since ? 'INSERT' : 'UPDATE',
+        new: row,
+        old: null,
+        table: collection,
+      });
+    }
+  }
+
+  /**
+   * Open a presence and broadcast channel
+   *
+   * Calls with the same name share one channel; it disconnects once every
+   * caller has called `close()`.
+   *
+   * @throws VlibeValidationError if the channel is already open with different options
+   *
+   * @example
+   * ```typescript
+   * const room = db.channel<{ typing: boolean }>('chat:general');
+   * await room.track(user, { typing: false });
+   * room.onPresence('sync', (members) => renderOnline(members));
+   * room.on('message', (message) => appendMessage(message));
+   * await room.send('message', { text: 'Hi!' });
+   * ```
+   */
+  channel<M extends Record<string, unknown> = Record<string, unknown>>(
+    name: string,
+    options: ChannelOptions = {}
+  ): VlibeBaseChannel<M> {
+    const existing = this.namedChannels.get(name);
+    if (existing) {
+      if ((existing.options.self ?? false) !== (options.self ?? false)) {
+        throw new VlibeValidationError(
+          `Channel ${name} is already open with different options; close it before reopening`,
+          [{ field: 'options', message: 'must match the options the channel was opened with' }]
+        );
+      }
+      existing.refs++;
+      return existing.channel as unknown as VlibeBaseChannel<M>;
+    }
+
+    const channel = new VlibeBaseChannel<M>(
+      name,
+      (handlers) => this.connectNamedChannel(name, handlers, options),
+      () => {
+        entry.refs--;
+        if (entry.refs === 0 && this.namedChannels.get(name) === entry) {
+          this.namedChannels.delete(name);
+          channel.disconnect();
+        }
+      }
+    );
+    const entry: NamedChannel = {
+      channel: channel as unknown as VlibeBaseChannel<Record<string, unknown>>,
+      options,
+      refs: 1,
+    };
+    this.namedChannels.set(name, entry);
+    return channel;
+  }
+
+  /**
+   * Connect a named channel to the local backend or to Supabase realtime
+   */
+  private connectNamedChannel(
+    name: string,
+    handlers: ChannelConnectionHandlers,
+    options: ChannelOptions
+  ): ChannelConnection {
+    if (this.localBackend) {
+      return this.localBackend.joinChannel(this.projectId, name, handlers, options);
+    }
 
-    this.subscriptions.set(channelName, channel);
+    this.initSupabase();
+
+    const endpoint = `realtime:channel:${name}`;
+    const assertSent = (response: string, action: string) => {
+      if (response !== 'ok') {
+        throw new VlibeNetworkError(`Failed to ${action} on channel ${name}: ${response}`, endpoint);
+      }
+    };
+
+    const realtimeChannel = this.supabase!.channel(`base:${this.projectId}:channel:${name}`, {
+      config: { broadcast: { self: options.self ?? false } },
+    })
+      .on('presence', { event: 'sync' }, () => {
+        const state = realtimeChannel.presenceState<PresenceMember>();
+        handlers.onPresence(
+          Object.values(state)
+            .flat()
+            .map(({ presence_ref: _ref, ...member }) => member as PresenceMember)
+        );
+      })
+      .on('broadcast', { event: '*' }, (message) => {
+        handlers.onBroadcast(message.event, message.payload);
+      })
+      .subscribe((status, error) => {
+        if (status === 'SUBSCRIBED') {
+          handlers.onStatus('open');
+        } else if (status === 'CLOSED') {
+          handlers.onStatus('closed');
+        } else {
+          handlers.onStatus(
+            'error',
+            new VlibeNetworkError(`Channel ${name} failed: ${status}`, endpoint, error)
+          );
+        }
+      });
 
     return {
-      unsubscribe: () => {
-        channel.unsubscribe();
-        this.subscriptions.delete(channelName);
+      track: async (member) => {
+        assertSent(await realtimeChannel.track(member), 'track presence');
+      },
+      untrack: async () => {
+        assertSent(await realtimeChannel.untrack(), 'untrack presence');
+      },
+      send: async (event, payload) => {
+        assertSent(
+          await realtimeChannel.send({ type: 'broadcast', event, payload }),
+          `send ${event}`
+        );
+      },
+      close: () => {
+        this.supabase?.removeChannel(realtimeChannel);
       },
     };
   }
 
   /**
-   * Unsubscribe from all subscriptions
+   * Unsubscribe from all subscriptions and disconnect all named channels
    */
   unsubscribeAll(): void {
-    for (const channel of this.subscriptions.values()) {
-      channel.unsubscribe();
+    for (const channel of this.collectionChannels.values()) {
+      channel.close();
+      channel.listeners.clear();
     }
-    this.subscriptions.clear();
+    this.collectionChannels.clear();
+    for (const { channel } of this.namedChannels.values()) {
+      channel.disconnect();
+    }
+    this.namedChannels.clear();
   }
 
   // ============================================================================
   // Utilities
   // ============================================================================
 
+  /**
+   * Drop cached reads for a collection, or for every collection
+   *
+   * Use after changes made outside this client when you are not subscribed
+   * to realtime events.
+   */
+  invalidate(collection?: string): void {
+    this.cache?.invalidate(collection);
+  }
+
+  /**
+   * Get the user a `forUser()` client acts as, or null for the project client
+   */
+  getUser(): VlibeUser | null {
+    return this.session?.user ?? null;
+  }
+
   /**
    * Get the project ID
    */
@@ -405,4 +2976,11 @@ export class VlibeBaseDatabase {
   getBaseUrl(): string {
     return this.baseUrl;
   }
+
+  /**
+   * Get the local backend when created with `inMemory()`, or null
+   */
+  getLocalBackend(): VlibeBaseLocalBackend | null {
+    return this.localBackend;
+  }
 }
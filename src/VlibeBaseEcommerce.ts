@@ -1,4 +1,5 @@
 import { VlibeBaseDatabase } from './VlibeBaseDatabase';
+import type { DatabaseTransaction } from './VlibeBaseDatabase';
 import type {
   Product,
   Order,
@@ -12,7 +13,42 @@ import type {
   RevenueStats,
   ProductStats,
   OrderStats,
+  WhereClause,
+  BulkResult,
+  BaseRecord,
+  IncludeClause,
 } from './types';
+import { VlibeError, VlibeNotFoundError, VlibeValidationError } from './errors';
+
+/** Loads an order's line items with the order, in the same request */
+const ORDER_ITEMS_INCLUDE: IncludeClause = {
+  items: {
+    type: 'hasMany',
+    collection: 'order_items',
+    foreignKey: 'orderId',
+    select: ['productId', 'name', 'quantity', 'price'],
+  },
+};
+
+/** Loads the product of each cart row */
+const CART_PRODUCT_INCLUDE: IncludeClause = {
+  product: { type: 'belongsTo', collection: 'products', foreignKey: 'productId' },
+};
+
+type OrderItemRow = BaseRecord & OrderItem & { orderId: string; lineTotal: number };
+
+type CartRow = BaseRecord & CartItem & { userId: string };
+
+type CartRowWithProduct = BaseRecord & { productId: string; quantity: number; product: Product | null };
+
+function toOrderItems(items: OrderItem[]): OrderItem[] {
+  return items.map(item => ({
+    productId: item.productId,
+    name: item.name,
+    quantity: item.quantity,
+    price: item.price,
+  }));
+}
 
 /**
  * VlibeBaseEcommerce - E-commerce functionality for Vlibe Base apps
@@ -59,9 +95,12 @@ export class VlibeBaseEcommerce {
    * Update an existing product
    */
   async updateProduct(productId: string, updates: Partial<Product>): Promise<Product> {
-    const existing = await this.getProduct(productId);
+    // Read-modify-write: bypass the cache so no newer changes are overwritten
+    const existing = await this.db.get<Product>('products', productId, { cache: false });
     if (!existing) {
-      throw new Error(`Product not found: ${productId}`);
+      throw new VlibeNotFoundError(`Product not found: ${productId}`, {
+        endpoint: `/collections/products/${productId}`,
+      });
     }
 
     const updated = {
@@ -92,7 +131,7 @@ export class VlibeBaseEcommerce {
     limit?: number;
     offset?: number;
   }): Promise<{ products: Product[]; total: number }> {
-    const where: Record<string, any> = {};
+    const where: WhereClause<Product> = {};
 
     if (options?.category) {
       where.category = options.category;
@@ -115,9 +154,17 @@ export class VlibeBaseEcommerce {
   }
 
   /**
-   * Soft delete a product (sets isActive = false)
+   * Delete a product
+   *
+   * With `products` in the database's `softDelete` option the product is
+   * soft-deleted and can be restored with `db.restore()`. Otherwise it is
+   * deactivated (`isActive = false`) so existing orders still resolve it.
    */
   async deleteProduct(productId: string): Promise<void> {
+    if (this.db.isSoftDelete('products')) {
+      await this.db.delete('products', productId);
+      return;
+    }
     await this.updateProduct(productId, { isActive: false });
   }
 
@@ -129,27 +176,14 @@ export class VlibeBaseEcommerce {
     quantity: number,
     operation: 'set' | 'increment' | 'decrement'
   ): Promise<Product> {
-    const product = await this.getProduct(productId);
+    const product = await this.db.get<Product>('products', productId, { cache: false });
     if (!product) {
-      throw new Error(`Product not found: ${productId}`);
-    }
-
-    let newStock: number;
-    switch (operation) {
-      case 'set':
-        newStock = quantity;
-        break;
-      case 'increment':
-        newStock = product.stock + quantity;
-        break;
-      case 'decrement':
-        newStock = product.stock - quantity;
-        if (newStock < 0) {
-          throw new Error(`Insufficient stock for product ${productId}. Available: ${product.stock}, requested: ${quantity}`);
-        }
-        break;
+      throw new VlibeNotFoundError(`Product not found: ${productId}`, {
+        endpoint: `/collections/products/${productId}`,
+      });
     }
 
+    const newStock = this.computeStock(product, quantity, operation);
     return await this.updateProduct(productId, { stock: newStock });
   }
 
@@ -157,27 +191,20 @@ export class VlibeBaseEcommerce {
    * Get products below stock threshold
    */
   async getLowStockProducts(threshold: number = 10): Promise<Product[]> {
-    const products = await this.db.query<Product>('products', {
-      where: { isActive: true },
+    return await this.db.query<Product>('products', {
+      where: { isActive: true, stock: { $lte: threshold } },
     });
-
-    return products.filter(p => p.stock <= threshold);
   }
 
   /**
    * Bulk update inventory for multiple products
+   * Reads all products in one query, then updates each product's stock
+   * @throws VlibeNotFoundError if a product does not exist or was deleted
    */
   async bulkUpdateInventory(
     updates: Array<{ productId: string; quantity: number; operation: 'set' | 'increment' | 'decrement' }>
   ): Promise<Product[]> {
-    const results: Product[] = [];
-
-    for (const update of updates) {
-      const product = await this.updateInventory(update.productId, update.quantity, update.operation);
-      results.push(product);
-    }
-
-    return results;
+    return await this.applyInventoryUpdates(this.db, updates);
   }
 
   // ===========================
@@ -188,138 +215,22 @@ export class VlibeBaseEcommerce {
    * Calculate order totals from cart items
    */
   async calculateOrderTotal(items: CartItem[]): Promise<OrderCalculation> {
-    const calculatedItems: OrderCalculation['items'] = [];
-    let subtotal = 0;
-
-    for (const item of items) {
-      const product = await this.getProduct(item.productId);
-      if (!product) {
-        throw new Error(`Product not found: ${item.productId}`);
-      }
-
-      const lineTotal = product.price * item.quantity;
-      const inStock = product.stock >= item.quantity;
-
-      calculatedItems.push({
-        productId: item.productId,
-        name: product.name,
-        price: product.price,
-        quantity: item.quantity,
-        lineTotal,
-        inStock,
-      });
-
-      subtotal += lineTotal;
-    }
-
-    // Check if all items are in stock
-    const allInStock = calculatedItems.every(item => item.inStock);
-    if (!allInStock) {
-      const outOfStock = calculatedItems.filter(item => !item.inStock);
-      throw new Error(`Items out of stock: ${outOfStock.map(i => i.name).join(', ')}`);
-    }
-
-    // Simple tax calculation (can be customized)
-    const tax = Math.round(subtotal * 0.08); // 8% tax
-
-    // Simple shipping calculation (can be customized)
-    const shipping = subtotal > 5000 ? 0 : 500; // Free shipping over $50, else $5
-
-    const total = subtotal + tax + shipping;
-
-    return {
-      subtotal,
-      tax,
-      shipping,
-      total,
-      items: calculatedItems,
-    };
+    return await this.calculateTotals(this.db, items);
   }
 
   /**
    * Create an order from cart items
-   * Reduces inventory atomically
+   * The order, its items and the inventory decrement commit atomically
    */
   async createOrder(input: CreateOrderInput): Promise<Order> {
-    const now = new Date().toISOString();
-
-    // Calculate totals
-    const calculation = await this.calculateOrderTotal(
-      input.items.map(item => ({ productId: item.productId, quantity: item.quantity }))
-    );
-
-    // Create order items
-    const orderItems: OrderItem[] = calculation.items.map(item => ({
-      productId: item.productId,
-      name: item.name,
-      quantity: item.quantity,
-      price: item.price,
-    }));
-
-    // Create order
-    const order: Order = {
-      id: crypto.randomUUID(),
-      userId: input.userId,
-      status: 'pending',
-      items: orderItems,
-      subtotal: calculation.subtotal,
-      tax: calculation.tax,
-      shipping: calculation.shipping,
-      total: calculation.total,
-      shippingAddress: input.shippingAddress,
-      billingAddress: input.billingAddress,
-      paymentMethodId: input.paymentMethodId,
-      notes: input.notes,
-      created_at: now,
-      updated_at: now,
-    };
-
-    // Insert order
-    await this.db.insert('orders', order);
-
-    // Insert order items
-    for (const item of orderItems) {
-      await this.db.insert('order_items', {
-        id: crypto.randomUUID(),
-        orderId: order.id,
-        ...item,
-        lineTotal: item.price * item.quantity,
-        created_at: now,
-      });
-    }
-
-    // Reduce inventory
-    await this.bulkUpdateInventory(
-      input.items.map(item => ({
-        productId: item.productId,
-        quantity: item.quantity,
-        operation: 'decrement' as const,
-      }))
-    );
-
-    return order;
+    return await this.db.transaction(tx => this.insertOrder(tx, input));
   }
 
   /**
    * Get an order by ID
    */
   async getOrder(orderId: string): Promise<Order | null> {
-    const order = await this.db.get<Order>('orders', orderId);
-    if (!order) return null;
-
-    // Fetch order items
-    const items = await this.db.query<any>('order_items', {
-      where: { orderId },
-    });
-
-    order.items = items.map((item: any) => ({
-      productId: item.productId,
-      name: item.name,
-      quantity: item.quantity,
-      price: item.price,
-    }));
-
-    return order;
+    return await this.loadOrder(this.db, orderId);
   }
 
   /**
@@ -332,7 +243,7 @@ export class VlibeBaseEcommerce {
     limit?: number;
     offset?: number;
   }): Promise<{ orders: Order[]; total: number }> {
-    const where: Record<string, any> = {};
+    const where: WhereClause<Order> = {};
 
     if (options?.userId) {
       where.userId = options.userId;
@@ -347,70 +258,55 @@ export class VlibeBaseEcommerce {
       orderDirection: 'desc',
       limit: options?.limit,
       offset: options?.offset,
+      include: ORDER_ITEMS_INCLUDE,
     });
 
-    // Fetch items for each order
-    for (const order of orders) {
-      const items = await this.db.query<any>('order_items', {
-        where: { orderId: order.id },
-      });
-      order.items = items.map((item: any) => ({
-        productId: item.productId,
-        name: item.name,
-        quantity: item.quantity,
-        price: item.price,
-      }));
-    }
-
     const total = await this.db.count('orders', where);
 
-    return { orders, total };
+    return {
+      orders: orders.map(order => ({ ...order, items: toOrderItems(order.items) })),
+      total,
+    };
   }
 
   /**
    * Update order status
    */
   async updateOrderStatus(orderId: string, status: Order['status']): Promise<Order> {
-    const order = await this.getOrder(orderId);
-    if (!order) {
-      throw new Error(`Order not found: ${orderId}`);
-    }
-
-    const updated = {
-      ...order,
-      status,
-      updated_at: new Date().toISOString(),
-    };
-
-    await this.db.update('orders', orderId, updated);
-    return updated;
+    return await this.setOrderStatus(this.db, orderId, status);
   }
 
   /**
    * Cancel an order and optionally restore inventory
+   * The inventory restore and status change commit atomically
    */
   async cancelOrder(orderId: string, restoreInventory: boolean = true): Promise<Order> {
-    const order = await this.getOrder(orderId);
-    if (!order) {
-      throw new Error(`Order not found: ${orderId}`);
-    }
+    return await this.db.transaction(async tx => {
+      const order = await this.loadOrder(tx, orderId);
+      if (!order) {
+        throw new VlibeNotFoundError(`Order not found: ${orderId}`, {
+          endpoint: `/collections/orders/${orderId}`,
+        });
+      }
 
-    if (order.status === 'cancelled') {
-      return order;
-    }
+      if (order.status === 'cancelled') {
+        return order;
+      }
 
-    // Restore inventory if requested
-    if (restoreInventory && order.items) {
-      await this.bulkUpdateInventory(
-        order.items.map(item => ({
-          productId: item.productId,
-          quantity: item.quantity,
-          operation: 'increment' as const,
-        }))
-      );
-    }
+      // Restore inventory if requested
+      if (restoreInventory && order.items) {
+        await this.applyInventoryUpdates(
+          tx,
+          order.items.map(item => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            operation: 'increment' as const,
+          }))
+        );
+      }
 
-    return await this.updateOrderStatus(orderId, 'cancelled');
+      return await this.setOrderStatus(tx, orderId, 'cancelled');
+    });
   }
 
   // ===========================
@@ -458,7 +354,9 @@ export class VlibeBaseEcommerce {
     });
 
     if (items.length === 0) {
-      throw new Error(`Cart item not found for product: ${productId}`);
+      throw new VlibeNotFoundError(`Cart item not found for product: ${productId}`, {
+        endpoint: '/collections/carts',
+      });
     }
 
     const item = items[0];
@@ -482,74 +380,67 @@ export class VlibeBaseEcommerce {
    * Get user's cart
    */
   async getCart(userId: string): Promise<CartItem[]> {
-    const items = await this.db.query<any>('carts', {
-      where: { userId },
-    });
-
-    return items.map((item: any) => ({
-      productId: item.productId,
-      quantity: item.quantity,
-    }));
+    return await this.loadCart(this.db, userId);
   }
 
   /**
    * Get user's cart with full product details
    */
   async getCartWithDetails(userId: string): Promise<CartItemWithProduct[]> {
-    const cart = await this.getCart(userId);
-
-    const enriched: CartItemWithProduct[] = [];
+    const cart = await this.db.query<CartRowWithProduct>('carts', {
+      where: { userId },
+      include: CART_PRODUCT_INCLUDE,
+    });
 
-    for (const item of cart) {
-      const product = await this.getProduct(item.productId);
+    return cart.map(item => {
+      const { product } = item;
       if (!product) {
-        throw new Error(`Product not found: ${item.productId}`);
+        throw new VlibeNotFoundError(`Product not found: ${item.productId}`, {
+          endpoint: `/collections/products/${item.productId}`,
+        });
       }
 
-      enriched.push({
+      return {
         productId: item.productId,
         quantity: item.quantity,
         product,
         lineTotal: product.price * item.quantity,
-      });
-    }
-
-    return enriched;
+      };
+    });
   }
 
   /**
    * Clear user's cart
    */
   async clearCart(userId: string): Promise<void> {
-    const items = await this.db.query<any>('carts', {
-      where: { userId },
-    });
-
-    for (const item of items) {
-      await this.db.delete('carts', item.id);
-    }
+    const result = await this.db.deleteMany('carts', { userId });
+    this.assertBulkSuccess(result, 'clear cart');
   }
 
   /**
    * Checkout - convert cart to order and clear cart
+   * Order creation, inventory decrement and cart clearing commit atomically
    */
   async checkout(userId: string, shippingAddress: Address, paymentMethodId?: string): Promise<Order> {
-    const cart = await this.getCart(userId);
+    return await this.db.transaction(async tx => {
+      const cart = await this.loadCart(tx, userId);
 
-    if (cart.length === 0) {
-      throw new Error('Cart is empty');
-    }
+      if (cart.length === 0) {
+        throw new VlibeValidationError('Cart is empty');
+      }
 
-    const order = await this.createOrder({
-      userId,
-      items: cart.map(item => ({ productId: item.productId, quantity: item.quantity })),
-      shippingAddress,
-      paymentMethodId,
-    });
+      const order = await this.insertOrder(tx, {
+        userId,
+        items: cart.map(item => ({ productId: item.productId, quantity: item.quantity })),
+        shippingAddress,
+        paymentMethodId,
+      });
 
-    await this.clearCart(userId);
+      const result = await tx.deleteMany('carts', { userId });
+      this.assertBulkSuccess(result, 'clear cart');
 
-    return order;
+      return order;
+    });
   }
 
   // ===========================
@@ -564,26 +455,22 @@ export class VlibeBaseEcommerce {
     const periodStart = this.getPeriodStart(now, period);
     const previousPeriodStart = this.getPeriodStart(new Date(periodStart), period);
 
-    // Get orders in current period
-    const orders = await this.db.query<Order>('orders', {});
-    const currentOrders = orders.filter(o => new Date(o.created_at) >= periodStart);
-    const previousOrders = orders.filter(o =>
-      new Date(o.created_at) >= previousPeriodStart &&
-      new Date(o.created_at) < periodStart
-    );
-
-    const totalRevenue = currentOrders.reduce((sum, o) => sum + o.total, 0);
-    const previousRevenue = previousOrders.reduce((sum, o) => sum + o.total, 0);
-    const totalOrders = currentOrders.length;
-    const previousOrderCount = previousOrders.length;
+    const [current, previous] = await Promise.all([
+      this.sumOrders({ created_at: { $gte: periodStart.toISOString() } }),
+      this.sumOrders({
+        created_at: { $gte: previousPeriodStart.toISOString(), $lt: periodStart.toISOString() },
+      }),
+    ]);
 
+    const totalRevenue = current.revenue;
+    const totalOrders = current.count;
     const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
 
-    const revenueTrend = previousRevenue > 0
-      ? ((totalRevenue - previousRevenue) / previousRevenue) * 100
+    const revenueTrend = previous.revenue > 0
+      ? ((totalRevenue - previous.revenue) / previous.revenue) * 100
       : 0;
-    const ordersTrend = previousOrderCount > 0
-      ? ((totalOrders - previousOrderCount) / previousOrderCount) * 100
+    const ordersTrend = previous.count > 0
+      ? ((totalOrders - previous.count) / previous.count) * 100
       : 0;
 
     return {
@@ -603,48 +490,50 @@ export class VlibeBaseEcommerce {
 
   /**
    * Get top selling products
+   *
+   * With a period, only orders placed since its start are counted.
    */
   async getTopProducts(limit: number = 10, period?: 'day' | 'week' | 'month'): Promise<ProductStats[]> {
-    const orders = await this.db.query<Order>('orders', {});
-
-    // Filter by period if specified
-    let filteredOrders = orders;
+    let where: WhereClause<OrderItemRow> | undefined;
     if (period) {
-      const periodStart = this.getPeriodStart(new Date(), period);
-      filteredOrders = orders.filter(o => new Date(o.created_at) >= periodStart);
-    }
-
-    // Aggregate by product
-    const productMap = new Map<string, { name: string; totalSold: number; revenue: number }>();
-
-    for (const order of filteredOrders) {
-      if (!order.items) continue;
-      for (const item of order.items) {
-        const existing = productMap.get(item.productId) || { name: item.name, totalSold: 0, revenue: 0 };
-        existing.totalSold += item.quantity;
-        existing.revenue += item.price * item.quantity;
-        productMap.set(item.productId, existing);
+      const orderIds: string[] = [];
+      for await (const order of this.db.iterate<Order>('orders', {
+        where: { created_at: { $gte: this.getPeriodStart(new Date(), period).toISOString() } },
+        select: ['id'],
+        pageSize: 500,
+      })) {
+        orderIds.push(order.id);
       }
+      if (orderIds.length === 0) return [];
+      where = { orderId: { $in: orderIds } };
     }
 
-    // Convert to array and sort
-    const stats: ProductStats[] = Array.from(productMap.entries()).map(([productId, data]) => ({
-      productId,
-      name: data.name,
-      totalSold: data.totalSold,
-      revenue: data.revenue,
-    }));
-
-    stats.sort((a, b) => b.revenue - a.revenue);
+    const rows = await this.db.aggregate<OrderItemRow>('order_items', {
+      where,
+      groupBy: ['productId'],
+      metrics: { sum: ['quantity', 'lineTotal'] },
+      orderBy: 'sum.lineTotal',
+      orderDirection: 'desc',
+      limit,
+    });
+    const names = await this.getProductNames(rows.map(row => row.group.productId as string));
 
-    return stats.slice(0, limit);
+    return rows.map(row => ({
+      productId: row.group.productId as string,
+      name: names.get(row.group.productId as string) ?? '',
+      totalSold: row.sum?.quantity ?? 0,
+      revenue: row.sum?.lineTotal ?? 0,
+    }));
   }
 
   /**
    * Get order statistics by status
    */
   async getOrderStats(): Promise<OrderStats> {
-    const orders = await this.db.query<Order>('orders', {});
+    const rows = await this.db.aggregate<Order>('orders', {
+      groupBy: ['status'],
+      metrics: { count: true, sum: ['total'] },
+    });
 
     const stats: OrderStats = {
       pending: 0,
@@ -655,14 +544,18 @@ export class VlibeBaseEcommerce {
       averageOrderValue: 0,
     };
 
+    let totalOrders = 0;
     let totalValue = 0;
 
-    for (const order of orders) {
-      stats[order.status]++;
-      totalValue += order.total;
+    for (const row of rows) {
+      const status = row.group.status as Order['status'];
+      const count = row.count ?? 0;
+      if (status in stats) stats[status] = count;
+      totalOrders += count;
+      totalValue += row.sum?.total ?? 0;
     }
 
-    stats.averageOrderValue = orders.length > 0 ? totalValue / orders.length : 0;
+    stats.averageOrderValue = totalOrders > 0 ? totalValue / totalOrders : 0;
 
     return stats;
   }
@@ -671,6 +564,269 @@ export class VlibeBaseEcommerce {
   // HELPER METHODS
   // ===========================
 
+  private async calculateTotals(db: DatabaseTransaction, items: CartItem[]): Promise<OrderCalculation> {
+    const calculatedItems: OrderCalculation['items'] = [];
+    let subtotal = 0;
+
+    for (const item of items) {
+      const product = await db.get<Product>('products', item.productId);
+      if (!product) {
+        throw new VlibeNotFoundError(`Product not found: ${item.productId}`, {
+          endpoint: `/collections/products/${item.productId}`,
+        });
+      }
+
+      const lineTotal = product.price * item.quantity;
+      const inStock = product.stock >= item.quantity;
+
+      calculatedItems.push({
+        productId: item.productId,
+        name: product.name,
+        price: product.price,
+        quantity: item.quantity,
+        lineTotal,
+        inStock,
+      });
+
+      subtotal += lineTotal;
+    }
+
+    // Check if all items are in stock
+    const allInStock = calculatedItems.every(item => item.inStock);
+    if (!allInStock) {
+      const outOfStock = calculatedItems.filter(item => !item.inStock);
+      throw new VlibeValidationError(
+        `Items out of stock: ${outOfStock.map(i => i.name).join(', ')}`,
+        outOfStock.map(i => ({ field: i.productId, message: `${i.name} is out of stock` }))
+      );
+    }
+
+    // Simple tax calculation (can be customized)
+    const tax = Math.round(subtotal * 0.08); // 8% tax
+
+    // Simple shipping calculation (can be customized)
+    const shipping = subtotal > 5000 ? 0 : 500; // Free shipping over $50, else $5
+
+    const total = subtotal + tax + shipping;
+
+    return {
+      subtotal,
+      tax,
+      shipping,
+      total,
+      items: calculatedItems,
+    };
+  }
+
+  private async insertOrder(db: DatabaseTransaction, input: CreateOrderInput): Promise<Order> {
+    const now = new Date().toISOString();
+
+    // Calculate totals
+    const calculation = await this.calculateTotals(
+      db,
+      input.items.map(item => ({ productId: item.productId, quantity: item.quantity }))
+    );
+
+    // Create order items
+    const orderItems: OrderItem[] = calculation.items.map(item => ({
+      productId: item.productId,
+      name: item.name,
+      quantity: item.quantity,
+      price: item.price,
+    }));
+
+    // Create order
+    const order: Order = {
+      id: crypto.randomUUID(),
+      userId: input.userId,
+      status: 'pending',
+      items: orderItems,
+      subtotal: calculation.subtotal,
+      tax: calculation.tax,
+      shipping: calculation.shipping,
+      total: calculation.total,
+      shippingAddress: input.shippingAddress,
+      billingAddress: input.billingAddress,
+      paymentMethodId: input.paymentMethodId,
+      notes: input.notes,
+      created_at: now,
+      updated_at: now,
+    };
+
+    // Insert order
+    await db.insert('orders', order);
+
+    // Insert order items
+    const itemsResult = await db.insertMany(
+      'order_items',
+      orderItems.map(item => ({
+        id: crypto.randomUUID(),
+        orderId: order.id,
+        ...item,
+        lineTotal: item.price * item.quantity,
+        created_at: now,
+      }))
+    );
+    this.assertBulkSuccess(itemsResult, 'create order items');
+
+    // Reduce inventory
+    await this.applyInventoryUpdates(
+      db,
+      input.items.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        operation: 'decrement' as const,
+      }))
+    );
+
+    return order;
+  }
+
+  private async loadOrder(db: DatabaseTransaction, orderId: string): Promise<Order | null> {
+    const order = await db.get<Order>('orders', orderId, { include: ORDER_ITEMS_INCLUDE });
+    if (!order) return null;
+
+    return { ...order, items: toOrderItems(order.items) };
+  }
+
+  private async setOrderStatus(
+    db: DatabaseTransaction,
+    orderId: string,
+    status: Order['status']
+  ): Promise<Order> {
+    const order = await this.loadOrder(db, orderId);
+    if (!order) {
+      throw new VlibeNotFoundError(`Order not found: ${orderId}`, {
+        endpoint: `/collections/orders/${orderId}`,
+      });
+    }
+
+    const updated = {
+      ...order,
+      status,
+      updated_at: new Date().toISOString(),
+    };
+
+    await db.update('orders', orderId, updated);
+    return updated;
+  }
+
+  private async applyInventoryUpdates(
+    db: DatabaseTransaction,
+    updates: Array<{ productId: string; quantity: number; operation: 'set' | 'increment' | 'decrement' }>
+  ): Promise<Product[]> {
+    if (updates.length === 0) return [];
+
+    const productIds = Array.from(new Set(updates.map(u => u.productId)));
+    const products = await db.query<Product>('products', {
+      where: { id: { $in: productIds } },
+      limit: productIds.length,
+      // Stock is read to be written back; a cached count would undo other writes
+      cache: false,
+    });
+    const byId = new Map(products.map(p => [p.id, p]));
+
+    // Apply updates in order so repeated products accumulate
+    for (const update of updates) {
+      const product = byId.get(update.productId);
+      if (!product) {
+        throw new VlibeNotFoundError(`Product not found: ${update.productId}`, {
+          endpoint: `/collections/products/${update.productId}`,
+        });
+      }
+      byId.set(product.id, {
+        ...product,
+        stock: this.computeStock(product, update.quantity, update.operation),
+      });
+    }
+
+    // Updated by ID, so a product deleted since it was read fails as not found
+    const updated: Product[] = [];
+    for (const id of productIds) {
+      updated.push(await db.update<Product>('products', id, { stock: byId.get(id)!.stock }));
+    }
+    return updated;
+  }
+
+  /**
+   * Current names of products, or the name they were last sold under for
+   * products that were deleted
+   */
+  private async getProductNames(productIds: string[]): Promise<Map<string, string>> {
+    if (productIds.length === 0) return new Map();
+    const products = await this.db.query<Product>('products', {
+      where: { id: { $in: productIds } },
+      select: ['name'],
+      includeDeleted: true,
+    });
+    const names = new Map(products.map(product => [product.id, product.name]));
+
+    for (const productId of productIds.filter(id => !names.has(id))) {
+      const [item] = await this.db.query<OrderItemRow>('order_items', {
+        where: { productId },
+        orderBy: 'created_at',
+        orderDirection: 'desc',
+        limit: 1,
+        select: ['name'],
+      });
+      if (item) names.set(productId, item.name);
+    }
+    return names;
+  }
+
+  private async loadCart(db: DatabaseTransaction, userId: string): Promise<CartItem[]> {
+    const items = await db.query<CartRow>('carts', {
+      where: { userId },
+    });
+
+    return items.map(item => ({
+      productId: item.productId,
+      quantity: item.quantity,
+    }));
+  }
+
+  private computeStock(
+    product: Product,
+    quantity: number,
+    operation: 'set' | 'increment' | 'decrement'
+  ): number {
+    switch (operation) {
+      case 'set':
+        return quantity;
+      case 'increment':
+        return product.stock + quantity;
+      case 'decrement': {
+        const newStock = product.stock - quantity;
+        if (newStock < 0) {
+          throw new VlibeValidationError(
+            `Insufficient stock for product ${product.id}. Available: ${product.stock}, requested: ${quantity}`,
+            [{ field: 'stock', message: `Only ${product.stock} available` }]
+          );
+        }
+        return newStock;
+      }
+    }
+  }
+
+  private assertBulkSuccess(result: BulkResult<unknown>, action: string): void {
+    if (result.errorCount === 0) return;
+    const failures = result.results
+      .filter(r => !r.success)
+      .map(r => `row ${r.index}: ${r.error || 'unknown error'}`);
+    throw new VlibeError(`Failed to ${action} (${result.errorCount} failed): ${failures.join('; ')}`);
+  }
+
+  /**
+   * Total revenue and number of orders matching a filter
+   */
+  private async sumOrders(where: WhereClause<Order>): Promise<{ revenue: number; count: number }> {
+    const [row] = await this.db.aggregate<Order>('orders', {
+      where,
+      metrics: { count: true, sum: ['total'] },
+    });
+    return { revenue: row?.sum?.total ?? 0, count: row?.count ?? 0 };
+  }
+
   private generateSKU(): string {
     const timestamp = Date.now().toString(36).toUpperCase();
     const random = Math.random().toString(36).substring(2, 6).toUpperCase();
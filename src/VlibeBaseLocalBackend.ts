@@ -0,0 +1,1880 @@
+import type {
+  AggregateMetrics,
+  AggregateOptions,
+  AggregateRow,
+  AlterTableOperation,
+  AuditEntry,
+  BaseRecord,
+  BucketInfo,
+  BulkResult,
+  BulkRowResult,
+  ChannelOptions,
+  IncludeClause,
+  IncludeOptions,
+  PresenceMember,
+  RealtimePayload,
+  RelationDefinition,
+  Subscription,
+  TableColumn,
+  TableInfo,
+  TableSchema,
+  VlibeUser,
+  WhereClause,
+} from './types';
+import { compareValues, getFieldValue, matchesWhere } from './filters';
+import type { ChannelConnection, ChannelConnectionHandlers } from './VlibeBaseChannel';
+
+interface LocalListener {
+  callback: (payload: RealtimePayload<BaseRecord>) => void;
+  onStatus?: (status: 'open' | 'closed') => void;
+}
+
+interface LocalChannelClient {
+  handlers: ChannelConnectionHandlers;
+  presence: PresenceMember | null;
+  self: boolean;
+}
+
+interface LocalTable {
+  name: string;
+  columns: TableColumn[];
+  relations?: Record<string, RelationDefinition>;
+  audit?: boolean;
+  ownerField?: string;
+  createdAt: string;
+  rows: Map<string, BaseRecord>;
+}
+
+interface LocalKVEntry {
+  value: unknown;
+  version: number;
+  /** Epoch milliseconds, or null if the key never expires */
+  expiresAt: number | null;
+}
+
+interface LocalFile {
+  bytes: Uint8Array;
+  mimeType: string;
+  /** ID of the file's row in the media collection */
+  mediaId: string;
+}
+
+interface LocalBucket {
+  name: string;
+  public: boolean;
+  createdAt: string;
+  files: Map<string, LocalFile>;
+}
+
+interface LocalUpload {
+  projectId: string;
+  bucket: string;
+  path: string;
+  /** Declared size, or null for a stream of unknown length */
+  size: number | null;
+  contentType: string;
+  alt?: string;
+  upsert: boolean;
+  chunks: Uint8Array[];
+  received: number;
+}
+
+interface ProjectState {
+  tables: Map<string, LocalTable>;
+  kv: Map<string, LocalKVEntry>;
+  buckets: Map<string, LocalBucket>;
+  /** Changes to audited tables, oldest first */
+  audit: AuditEntry<BaseRecord>[];
+  /** Incremented on every committed write, used to detect transaction conflicts */
+  version: number;
+}
+
+interface LocalTransaction {
+  projectId: string;
+  state: ProjectState;
+  baseVersion: number;
+  events: RealtimePayload<BaseRecord>[];
+}
+
+interface RouteContext {
+  projectId: string;
+  state: ProjectState;
+  method: string;
+  segments: string[];
+  query: URLSearchParams;
+  /** Parsed JSON, raw bytes for upload chunks, or undefined */
+  body: unknown;
+  /** URL of the project's API, for links to stored files */
+  baseUrl: string;
+  /** User the request's writes are attributed to, from `X-Vlibe-Actor` */
+  actor: string | null;
+  /** User verified from `X-Vlibe-Session`, limited to the rows they own */
+  user: VlibeUser | null;
+  /** Realtime events to emit once the write is committed */
+  events: RealtimePayload<BaseRecord>[];
+}
+
+type RouteResult = {
+  status: number;
+  body: Record<string, unknown>;
+  /** Sent instead of the JSON body when set */
+  file?: { bytes: Uint8Array; mimeType: string };
+};
+
+/** Collection where uploaded files are recorded */
+const MEDIA_COLLECTION = 'media';
+
+/** How long a response is replayed for a repeated idempotency key */
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+/** Most idempotent responses kept; the oldest are dropped first */
+const IDEMPOTENCY_MAX_ENTRIES = 1000;
+
+/**
+ * Error raised inside a route handler and turned into an error response
+ */
+class LocalHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code?: string
+  ) {
+    super(message);
+  }
+}
+
+function ok(data: unknown, extra: Record<string, unknown> = {}): RouteResult {
+  return { status: 200, body: { success: true, data, ...extra } };
+}
+
+/**
+ * The request body as a JSON object, or `{}` when there is none
+ */
+function jsonBody(ctx: RouteContext): Record<string, unknown> {
+  if (ctx.body === undefined || ctx.body === null) return {};
+  if (typeof ctx.body !== 'object' || Array.isArray(ctx.body) || ctx.body instanceof Uint8Array) {
+    throw new LocalHttpError(400, 'Expected a JSON object body', 'invalid_body');
+  }
+  return ctx.body as Record<string, unknown>;
+}
+
+function parseBody(body: RequestInit['body']): unknown {
+  if (body instanceof Uint8Array) return body;
+  if (typeof body !== 'string' || !body) return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new LocalHttpError(400, 'Request body is not valid JSON', 'invalid_json');
+  }
+}
+
+function emptyState(): ProjectState {
+  return { tables: new Map(), kv: new Map(), buckets: new Map(), audit: [], version: 0 };
+}
+
+/**
+ * Copy a row, keeping only `id` and the selected columns when `select` is given
+ */
+function project(row: BaseRecord, select?: string[]): Record<string, unknown> {
+  const copy = structuredClone(row) as Record<string, unknown>;
+  if (!select) return copy;
+  return Object.fromEntries(
+    Object.entries(copy).filter(([key]) => key === 'id' || select.includes(key))
+  );
+}
+
+/**
+ * Truncate a date to the start of its bucket, in UTC; weeks start on Monday
+ */
+function bucketStart(
+  value: unknown,
+  interval: NonNullable<AggregateOptions['timeBucket']>['interval']
+): string | null {
+  if (value === null || value === undefined) return null;
+  const date = new Date(value as string | number);
+  if (Number.isNaN(date.getTime())) return null;
+
+  switch (interval) {
+    case 'year':
+      date.setUTCMonth(0, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      break;
+    case 'month':
+      date.setUTCDate(1);
+      date.setUTCHours(0, 0, 0, 0);
+      break;
+    case 'week':
+      date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+      date.setUTCHours(0, 0, 0, 0);
+      break;
+    case 'day':
+      date.setUTCHours(0, 0, 0, 0);
+      break;
+    case 'hour':
+      date.setUTCMinutes(0, 0, 0);
+      break;
+  }
+  return date.toISOString();
+}
+
+/**
+ * Compute the requested metrics over one group of rows
+ */
+function computeMetrics(
+  rows: BaseRecord[],
+  metrics: AggregateMetrics
+): Omit<AggregateRow, 'group' | 'bucket'> {
+  const values = (field: string) =>
+    rows
+      .map((row) => getFieldValue(row, field))
+      .filter((value) => value !== null && value !== undefined);
+  const numbers = (field: string) =>
+    values(field).filter((value): value is number => typeof value === 'number');
+  const extreme = (field: string, sign: number) =>
+    values(field).reduce<unknown>(
+      (best, value) => (best === null || sign * compareValues(value, best) > 0 ? value : best),
+      null
+    );
+  const byField = <V>(fields: string[] | undefined, compute: (field: string) => V) =>
+    fields && Object.fromEntries(fields.map((field) => [field, compute(field)]));
+
+  const result: Omit<AggregateRow, 'group' | 'bucket'> = {};
+  if (metrics.count) result.count = rows.length;
+  const sum = byField(metrics.sum, (field) => numbers(field).reduce((total, n) => total + n, 0));
+  if (sum) result.sum = sum;
+  const avg = byField(metrics.avg, (field) => {
+    const fieldNumbers = numbers(field);
+    return fieldNumbers.length > 0
+      ? fieldNumbers.reduce((total, n) => total + n, 0) / fieldNumbers.length
+      : null;
+  });
+  if (avg) result.avg = avg;
+  const min = byField(metrics.min, (field) => extreme(field, -1));
+  if (min) result.min = min;
+  const max = byField(metrics.max, (field) => extreme(field, 1));
+  if (max) result.max = max;
+  return result;
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+/** A word, captured, or the text between two words */
+const WORD_OR_GAP = /([\p{L}\p{N}]+)|[^\p{L}\p{N}]+/gu;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(WORD) || [];
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    if (Math.min(...current) > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Score a search term against a word: exact 1, prefix 0.8, typo 0.5, else 0
+ */
+function matchWord(term: string, word: string, prefix: boolean, typos: boolean): number {
+  if (word === term) return 1;
+  if (prefix && word.startsWith(term)) return 0.8;
+  const allowed = !typos ? 0 : term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  return allowed > 0 && editDistance(term, word, allowed) <= allowed ? 0.5 : 0;
+}
+
+/**
+ * VlibeBaseLocalBackend - In-memory implementation of the Vlibe database API
+ *
+ * Serves the same `/api/database/:projectId/...` routes as the hosted API
+ * from memory, including where clauses, ordering, offset and cursor
+ * pagination, bulk operations, transactions and realtime events. Use it
+ * through `VlibeBaseDatabase.inMemory()` for offline development and tests.
+ *
+ * @example
+ * ```typescript
+ * const backend = new VlibeBaseLocalBackend();
+ * const db = VlibeBaseDatabase.inMemory({ backend });
+ * const ecommerce = new VlibeBaseEcommerce(db);
+ *
+ * await ecommerce.createProduct({ name: 'Mug', price: 1200, currency: 'usd', stock: 3 });
+ * backend.reset();
+ * ```
+ */
+export class VlibeBaseLocalBackend {
+  private projects: Map<string, ProjectState> = new Map();
+  private transactions: Map<string, LocalTransaction> = new Map();
+  private idempotentResponses: Map<string, { result: RouteResult; expiresAt: number }> = new Map();
+  private listeners: Map<string, Set<LocalListener>> = new Map();
+  private channelClients: Map<string, Set<LocalChannelClient>> = new Map();
+  private sessions: Map<string, VlibeUser> = new Map();
+  private uploads: Map<string, LocalUpload> = new Map();
+  private signedUrls: Map<string, { projectId: string; bucket: string; path: string; expiresAt: number }> =
+    new Map();
+  private signedUploads: Map<string, { projectId: string; uploadId: string; expiresAt: number }> =
+    new Map();
+  private online = true;
+
+  /**
+   * Fetch-compatible handler for the database and storage API routes
+   */
+  fetch = async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    const headers = new Headers(init.headers);
+    const method = (init.method || 'GET').toUpperCase();
+
+    const result = this.handle(method, url, headers, init.body);
+    if (result.file) {
+      return new Response(result.file.bytes.slice(), {
+        status: result.status,
+        headers: { 'Content-Type': result.file.mimeType },
+      });
+    }
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+
+  /**
+   * Listen to changes on a collection, like a realtime channel
+   *
+   * @param onStatus - Called with `open` (or `closed` while offline) once
+   * subscribed, and with `closed` when the backend goes offline
+   */
+  subscribe<T extends BaseRecord>(
+    projectId: string,
+    collection: string,
+    callback: (payload: RealtimePayload<T>) => void,
+    onStatus?: (status: 'open' | 'closed') => void
+  ): Subscription {
+    const key = `${projectId}:${collection}`;
+    const listener: LocalListener = {
+      callback: callback as (payload: RealtimePayload<BaseRecord>) => void,
+      onStatus,
+    };
+    if (!this.listeners.has(key)) this.listeners.set(key, new Set());
+    this.listeners.get(key)!.add(listener);
+
+    // Report asynchronously, like a socket handshake
+    queueMicrotask(() => {
+      if (this.listeners.get(key)?.has(listener)) {
+        listener.onStatus?.(this.online ? 'open' : 'closed');
+      }
+    });
+
+    return {
+      unsubscribe: () => {
+        this.listeners.get(key)?.delete(listener);
+      },
+    };
+  }
+
+  /**
+   * Join a presence and broadcast channel
+   *
+   * Presence changes and messages reach the other clients asynchronously,
+   * like over a socket.
+   */
+  joinChannel(
+    projectId: string,
+    name: string,
+    handlers: ChannelConnectionHandlers,
+    options: ChannelOptions = {}
+  ): ChannelConnection {
+    const key = `${projectId}:${name}`;
+    const client: LocalChannelClient = { handlers, presence: null, self: options.self ?? false };
+    if (!this.channelClients.has(key)) this.channelClients.set(key, new Set());
+    const clients = this.channelClients.get(key)!;
+    clients.add(client);
+
+    const syncPresence = () => {
+      const presences = [...clients]
+        .map((c) => c.presence)
+        .filter((presence): presence is PresenceMember => presence !== null);
+      for (const c of clients) {
+        const snapshot = structuredClone(presences);
+        queueMicrotask(() => {
+          if (clients.has(c)) c.handlers.onPresence(snapshot);
+        });
+      }
+    };
+
+    queueMicrotask(() => {
+      if (!clients.has(client)) return;
+      handlers.onStatus('open');
+      syncPresence();
+    });
+
+    return {
+      track: async (member) => {
+        client.presence = structuredClone(member);
+        syncPresence();
+      },
+      untrack: async () => {
+        client.presence = null;
+        syncPresence();
+      },
+      send: async (event, payload) => {
+        for (const c of clients) {
+          if (c === client && !c.self) continue;
+          const message = structuredClone(payload);
+          queueMicrotask(() => {
+            if (clients.has(c)) c.handlers.onBroadcast(event, message);
+          });
+        }
+      },
+      close: () => {
+        clients.delete(client);
+        if (clients.size === 0) {
+          this.channelClients.delete(key);
+        } else if (client.presence) {
+          syncPresence();
+        }
+      },
+    };
+  }
+
+  /**
+   * Simulate the realtime connection dropping and coming back
+   *
+   * While offline, collection change events are not delivered and every
+   * collection subscriber is told its channel closed. Writes still succeed.
+   * Presence and broadcast channels are not affected.
+   */
+  setOnline(online: boolean): void {
+    if (this.online === online) return;
+    this.online = online;
+    if (online) return;
+
+    for (const listeners of this.listeners.values()) {
+      for (const listener of [...listeners]) {
+        listener.onStatus?.('closed');
+      }
+    }
+  }
+
+  /**
+   * Sign a user in, for use with `db.forUser()`
+   *
+   * @returns A session token the backend accepts for this user
+   */
+  createSession(user: VlibeUser): string {
+    const token = `local_session_${crypto.randomUUID()}`;
+    this.sessions.set(token, structuredClone(user));
+    return token;
+  }
+
+  /**
+   * Clear all data, or only one project's data
+   */
+  reset(projectId?: string): void {
+    if (projectId) {
+      this.projects.delete(projectId);
+    } else {
+      this.projects.clear();
+      this.transactions.clear();
+      this.idempotentResponses.clear();
+      this.uploads.clear();
+      this.signedUrls.clear();
+      this.signedUploads.clear();
+    }
+  }
+
+  private getProject(projectId: string): ProjectState {
+    if (!this.projects.has(projectId)) this.projects.set(projectId, emptyState());
+    return this.projects.get(projectId)!;
+  }
+
+  private emit(projectId: string, events: RealtimePayload<BaseRecord>[]): void {
+    if (!this.online) return;
+    for (const event of events) {
+      const listeners = this.listeners.get(`${projectId}:${event.table}`);
+      if (!listeners) continue;
+      for (const listener of listeners) {
+        listener.callback(structuredClone(event));
+      }
+    }
+  }
+
+  private handle(method: string, url: URL, headers: Headers, rawBody: RequestInit['body']): RouteResult {
+    const match = url.pathname.match(/^\/api\/database\/([^/]+)\/(.*)$/);
+    if (!match) {
+      return { status: 404, body: { success: false, error: `No route for ${url.pathname}` } };
+    }
+
+    const projectId = decodeURIComponent(match[1]);
+    const segments = match[2].split('/').filter(Boolean).map(decodeURIComponent);
+
+    const idempotencyKey = headers.get('Idempotency-Key');
+    const cacheKey = idempotencyKey ? `${projectId}:${idempotencyKey}` : null;
+    const cached = cacheKey ? this.idempotentResponses.get(cacheKey) : undefined;
+    if (cached && cached.expiresAt > Date.now()) return cached.result;
+    if (cached) this.idempotentResponses.delete(cacheKey!);
+
+    try {
+      const baseUrl = `${url.origin}/api/database/${match[1]}`;
+      const body = parseBody(rawBody);
+      const result = this.route(projectId, method, segments, url.searchParams, headers, body, baseUrl);
+      if (cacheKey && result.status < 500) this.rememberResponse(cacheKey, result);
+      return result;
+    } catch (error) {
+      if (error instanceof LocalHttpError) {
+        return {
+          status: error.status,
+          body: { success: false, error: error.message, code: error.code },
+        };
+      }
+      return {
+        status: 500,
+        body: { success: false, error: error instanceof Error ? error.message : 'Internal error' },
+      };
+    }
+  }
+
+  /**
+   * Keep a response to replay for its idempotency key, dropping the oldest
+   * ones past the cap
+   */
+  private rememberResponse(cacheKey: string, result: RouteResult): void {
+    this.idempotentResponses.delete(cacheKey);
+    this.idempotentResponses.set(cacheKey, { result, expiresAt: Date.now() + IDEMPOTENCY_TTL_MS });
+    for (const key of this.idempotentResponses.keys()) {
+      if (this.idempotentResponses.size <= IDEMPOTENCY_MAX_ENTRIES) break;
+      this.idempotentResponses.delete(key);
+    }
+  }
+
+  private route(
+    projectId: string,
+    method: string,
+    segments: string[],
+    query: URLSearchParams,
+    headers: Headers,
+    body: unknown,
+    baseUrl: string
+  ): RouteResult {
+    if (segments[0] === 'transactions') {
+      return this.routeTransaction(projectId, method, segments);
+    }
+
+    const transactionId = headers.get('X-Transaction-Id');
+    const transaction = transactionId ? this.transactions.get(transactionId) : undefined;
+    if (transactionId && (!transaction || transaction.projectId !== projectId)) {
+      throw new LocalHttpError(409, `Transaction ${transactionId} is not active`, 'transaction_inactive');
+    }
+
+    const sessionToken = headers.get('X-Vlibe-Session');
+    const user = sessionToken ? this.sessions.get(sessionToken) : undefined;
+    if (sessionToken && !user) {
+      throw new LocalHttpError(401, 'Invalid or expired session', 'invalid_session');
+    }
+
+    const project = this.getProject(projectId);
+    const context: RouteContext = {
+      projectId,
+      state: transaction ? transaction.state : project,
+      method,
+      segments,
+      query,
+      body,
+      baseUrl,
+      actor: user ? user.id : headers.get('X-Vlibe-Actor'),
+      user: user || null,
+      events: [],
+    };
+
+    const result = this.routeResource(context);
+
+    if (context.events.length > 0 || (method !== 'GET' && result.status < 300)) {
+      if (transaction) {
+        transaction.events.push(...context.events);
+      } else {
+        project.version++;
+        this.emit(projectId, context.events);
+      }
+    }
+
+    return result;
+  }
+
+  private routeTransaction(projectId: string, method: string, segments: string[]): RouteResult {
+    if (method !== 'POST') throw new LocalHttpError(405, 'Method not allowed');
+
+    if (segments.length === 1) {
+      const project = this.getProject(projectId);
+      const transactionId = crypto.randomUUID();
+      this.transactions.set(transactionId, {
+        projectId,
+        state: structuredClone(project),
+        baseVersion: project.version,
+        events: [],
+      });
+      return ok({ transactionId });
+    }
+
+    const [, transactionId, action] = segments;
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction || transaction.projectId !== projectId) {
+      throw new LocalHttpError(404, `Transaction not found: ${transactionId}`);
+    }
+    this.transactions.delete(transactionId);
+
+    if (action === 'rollback') return ok({ rolledBack: true });
+    if (action !== 'commit') throw new LocalHttpError(404, `Unknown transaction action: ${action}`);
+
+    const project = this.getProject(projectId);
+    if (project.version !== transaction.baseVersion) {
+      throw new LocalHttpError(
+        409,
+        'Transaction conflict: data changed since the transaction started',
+        'transaction_conflict'
+      );
+    }
+
+    transaction.state.version = project.version + 1;
+    this.projects.set(projectId, transaction.state);
+    this.emit(projectId, transaction.events);
+    return ok({ committed: true });
+  }
+
+  private routeResource(ctx: RouteContext): RouteResult {
+    const [resource, name, sub, action] = ctx.segments;
+
+    // Users may read table definitions but not change them, nor read the
+    // project-wide audit log or manage files; public and signed URLs work for anyone
+    if (
+      ctx.user &&
+      ((resource === 'tables' && ctx.method !== 'GET') ||
+        resource === 'audit' ||
+        (resource === 'storage' && !['public', 'signed', 'signed-uploads'].includes(name)))
+    ) {
+      throw new LocalHttpError(403, 'Not allowed with a user session', 'forbidden');
+    }
+
+    switch (resource) {
+      case 'session':
+        if (!name && ctx.method === 'GET') return this.routeSession(ctx);
+        break;
+      case 'tables':
+        return this.routeTables(ctx, name);
+      case 'collections':
+        if (!name) break;
+        if (sub === 'count' && ctx.method === 'GET') return this.countRows(ctx, name);
+        if (sub === 'aggregate' && ctx.method === 'GET') return this.aggregateRows(ctx, name);
+        if (sub === 'search' && ctx.method === 'GET') return this.searchRows(ctx, name);
+        if (sub && action === 'history' && ctx.method === 'GET') return this.routeHistory(ctx, name, sub);
+        if (sub && action === 'revert' && ctx.method === 'POST') return this.revertRow(ctx, name, sub);
+        if (sub === 'bulk') return this.routeBulk(ctx, name);
+        if (sub) return this.routeDocument(ctx, name, sub);
+        if (ctx.method === 'GET') return this.queryRows(ctx, name);
+        if (ctx.method === 'POST') return ok(this.insertRow(ctx, name, jsonBody(ctx)));
+        break;
+      case 'kv':
+        return this.routeKV(ctx, name, sub);
+      case 'audit':
+        if (!name && ctx.method === 'GET') return this.routeAuditLog(ctx);
+        break;
+      case 'storage':
+        return this.routeStorage(ctx);
+    }
+
+    throw new LocalHttpError(404, `No route for ${ctx.method} /${ctx.segments.join('/')}`);
+  }
+
+  // ============================================================================
+  // Sessions
+  // ============================================================================
+
+  private routeSession(ctx: RouteContext): RouteResult {
+    if (!ctx.user) throw new LocalHttpError(401, 'Missing session', 'invalid_session');
+
+    const ownership: Record<string, string> = {};
+    for (const table of ctx.state.tables.values()) {
+      if (table.ownerField) ownership[table.name] = table.ownerField;
+    }
+    return ok({ user: structuredClone(ctx.user), ownership });
+  }
+
+  /**
+   * Whether the request may see a row: always, unless it comes from a user
+   * session and the table has an owner field
+   */
+  private owns(ctx: RouteContext, table: LocalTable | undefined, row: Record<string, unknown>): boolean {
+    if (!ctx.user || !table?.ownerField) return true;
+    return getFieldValue(row, table.ownerField) === ctx.user.id;
+  }
+
+  // ============================================================================
+  // Tables
+  // ============================================================================
+
+  private tableInfo(table: LocalTable): TableInfo {
+    return {
+      name: table.name,
+      columns: table.columns,
+      ...(table.relations ? { relations: table.relations } : {}),
+      ...(table.audit ? { audit: true } : {}),
+      ...(table.ownerField ? { ownerField: table.ownerField } : {}),
+      rowCount: table.rows.size,
+      createdAt: table.createdAt,
+    };
+  }
+
+  private routeTables(ctx: RouteContext, name?: string): RouteResult {
+    const { state, method } = ctx;
+
+    if (!name) {
+      if (method === 'GET') return ok(Array.from(state.tables.values()).map((t) => this.tableInfo(t)));
+      if (method === 'POST') {
+        const { name: tableName, schema } = jsonBody(ctx) as { name: string; schema: TableSchema };
+        if (state.tables.has(tableName)) {
+          throw new LocalHttpError(409, `Table already exists: ${tableName}`, 'table_exists');
+        }
+        const table: LocalTable = {
+          name: tableName,
+          columns: schema?.columns || [],
+          relations: schema?.relations,
+          audit: schema?.audit,
+          ownerField: schema?.ownerField,
+          createdAt: new Date().toISOString(),
+          rows: new Map(),
+        };
+        state.tables.set(tableName, table);
+        return ok(this.tableInfo(table));
+      }
+      throw new LocalHttpError(405, 'Method not allowed');
+    }
+
+    const table = state.tables.get(name);
+    if (!table) throw new LocalHttpError(404, `Table not found: ${name}`);
+
+    switch (method) {
+      case 'GET':
+        return ok(this.tableInfo(table));
+      case 'PATCH':
+        for (const operation of (jsonBody(ctx).operations || []) as AlterTableOperation[]) {
+          this.alterTable(table, operation);
+        }
+        return ok(this.tableInfo(table));
+      case 'DELETE':
+        state.tables.delete(name);
+        return ok({ deleted: true });
+    }
+    throw new LocalHttpError(405, 'Method not allowed');
+  }
+
+  private alterTable(table: LocalTable, operation: AlterTableOperation): void {
+    const findColumn = (columnName: string): TableColumn => {
+      const column = table.columns.find((c) => c.name === columnName);
+      if (!column) throw new LocalHttpError(400, `Column not found: ${columnName}`);
+      return column;
+    };
+
+    switch (operation.type) {
+      case 'addColumn':
+        if (table.columns.some((c) => c.name === operation.column.name)) {
+          throw new LocalHttpError(400, `Column already exists: ${operation.column.name}`);
+        }
+        table.columns.push(operation.column);
+        if (operation.column.default !== undefined) {
+          for (const row of table.rows.values()) {
+            if (row[operation.column.name] === undefined) row[operation.column.name] = operation.column.default;
+          }
+        }
+        break;
+      case 'dropColumn':
+        findColumn(operation.name);
+        table.columns = table.columns.filter((c) => c.name !== operation.name);
+        for (const row of table.rows.values()) delete row[operation.name];
+        break;
+      case 'renameColumn':
+        findColumn(operation.from).name = operation.to;
+        for (const row of table.rows.values()) {
+          if (operation.from in row) {
+            row[operation.to] = row[operation.from];
+            delete row[operation.from];
+          }
+        }
+        break;
+      case 'setDefault':
+        findColumn(operation.name).default = operation.default;
+        break;
+      case 'dropDefault':
+        delete findColumn(operation.name).default;
+        break;
+      case 'addUnique': {
+        const column = findColumn(operation.name);
+        const values = Array.from(table.rows.values()).map((r) => JSON.stringify(r[column.name]));
+        if (new Set(values).size !== values.length) {
+          throw new LocalHttpError(409, `Duplicate values in ${operation.name}`, 'unique_violation');
+        }
+        column.unique = true;
+        break;
+      }
+      case 'setAudit':
+        table.audit = operation.enabled;
+        break;
+      case 'setOwnerField':
+        table.ownerField = operation.field ?? undefined;
+        break;
+    }
+  }
+
+  /**
+   * Get a collection's table, creating it on first write like a schemaless collection
+   */
+  private getTable(ctx: RouteContext, name: string, create: boolean): LocalTable | undefined {
+    let table = ctx.state.tables.get(name);
+    if (!table && create) {
+      table = { name, columns: [], createdAt: new Date().toISOString(), rows: new Map() };
+      ctx.state.tables.set(name, table);
+    }
+    return table;
+  }
+
+  // ============================================================================
+  // Documents
+  // ============================================================================
+
+  private checkConstraints(table: LocalTable, row: BaseRecord): void {
+    for (const column of table.columns) {
+      const value = row[column.name];
+      if (column.required && (value === null || value === undefined)) {
+        throw new LocalHttpError(400, `${column.name} is required`, 'required');
+      }
+      if (column.unique && value !== null && value !== undefined) {
+        for (const other of table.rows.values()) {
+          if (other.id !== row.id && JSON.stringify(other[column.name]) === JSON.stringify(value)) {
+            throw new LocalHttpError(409, `Duplicate value for unique column ${column.name}`, 'unique_violation');
+          }
+        }
+      }
+    }
+  }
+
+  private insertRow(ctx: RouteContext, collection: string, data: Record<string, unknown>): BaseRecord {
+    const table = this.getTable(ctx, collection, true)!;
+    if (table.ownerField && data[table.ownerField] != null && !this.owns(ctx, table, data)) {
+      throw new LocalHttpError(403, 'Cannot insert a row owned by another user', 'forbidden');
+    }
+    // Rows inserted by a user belong to them
+    const owner = ctx.user && table.ownerField ? { [table.ownerField]: ctx.user.id } : {};
+    const now = new Date().toISOString();
+    const row: BaseRecord = {
+      ...Object.fromEntries(
+        table.columns.filter((c) => c.default !== undefined).map((c) => [c.name, c.default])
+      ),
+      ...data,
+      ...owner,
+      id: (data.id as string) || crypto.randomUUID(),
+      created_at: (data.created_at as string) || now,
+      updated_at: (data.updated_at as string) || now,
+    };
+
+    if (table.rows.has(row.id)) {
+      throw new LocalHttpError(409, `Document already exists: ${row.id}`, 'duplicate_id');
+    }
+    this.checkConstraints(table, row);
+
+    table.rows.set(row.id, row);
+    ctx.events.push({ eventType: 'INSERT', new: structuredClone(row), old: null, table: collection });
+    this.recordAudit(ctx, table, 'insert', null, row);
+    return structuredClone(row);
+  }
+
+  private updateRow(
+    ctx: RouteContext,
+    collection: string,
+    id: string,
+    patch: Record<string, unknown>
+  ): BaseRecord {
+    const table = this.getTable(ctx, collection, false);
+    const existing = table?.rows.get(id);
+    if (!table || !existing || !this.owns(ctx, table, existing)) {
+      throw new LocalHttpError(404, `Document not found: ${id}`);
+    }
+
+    const row: BaseRecord = {
+      ...existing,
+      ...patch,
+      id,
+      created_at: existing.created_at,
+      updated_at: new Date().toISOString(),
+    };
+    if (!this.owns(ctx, table, row)) {
+      throw new LocalHttpError(403, 'Cannot give a row to another user', 'forbidden');
+    }
+    this.checkConstraints(table, row);
+
+    table.rows.set(id, row);
+    ctx.events.push({
+      eventType: 'UPDATE',
+      new: structuredClone(row),
+      old: structuredClone(existing),
+      table: collection,
+    });
+    this.recordAudit(ctx, table, 'update', existing, row);
+    return structuredClone(row);
+  }
+
+  private deleteRow(ctx: RouteContext, collection: string, id: string): BaseRecord {
+    const table = this.getTable(ctx, collection, false);
+    const existing = table?.rows.get(id);
+    if (!table || !existing || !this.owns(ctx, table, existing)) {
+      throw new LocalHttpError(404, `Document not found: ${id}`);
+    }
+
+    table.rows.delete(id);
+    ctx.events.push({ eventType: 'DELETE', new: null, old: structuredClone(existing), table: collection });
+    this.recordAudit(ctx, table, 'delete', existing, null);
+    return structuredClone(existing);
+  }
+
+  // ============================================================================
+  // Audit Log
+  // ============================================================================
+
+  private recordAudit(
+    ctx: RouteContext,
+    table: LocalTable,
+    operation: AuditEntry['operation'],
+    before: BaseRecord | null,
+    after: BaseRecord | null
+  ): void {
+    if (!table.audit) return;
+
+    const diff: AuditEntry['diff'] = {};
+    for (const field of new Set([...Object.keys(before || {}), ...Object.keys(after || {})])) {
+      const previous = before?.[field];
+      const next = after?.[field];
+      if (JSON.stringify(previous) !== JSON.stringify(next)) {
+        diff[field] = { before: previous ?? null, after: next ?? null };
+      }
+    }
+
+    ctx.state.audit.push({
+      id: crypto.randomUUID(),
+      collection: table.name,
+      recordId: (after || before)!.id,
+      operation,
+      before: before && structuredClone(before),
+      after: after && structuredClone(after),
+      diff,
+      actor: ctx.actor,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private assertAudited(ctx: RouteContext, collection: string): void {
+    if (!this.getTable(ctx, collection, false)?.audit) {
+      throw new LocalHttpError(400, `Auditing is not enabled for ${collection}`, 'audit_disabled');
+    }
+  }
+
+  private routeHistory(ctx: RouteContext, collection: string, id: string): RouteResult {
+    this.assertAudited(ctx, collection);
+    const table = this.getTable(ctx, collection, false);
+    const limit = ctx.query.get('limit') ? Number(ctx.query.get('limit')) : undefined;
+    const entries = ctx.state.audit
+      .filter(
+        (entry) =>
+          entry.collection === collection &&
+          entry.recordId === id &&
+          this.owns(ctx, table, (entry.after || entry.before)!)
+      )
+      .reverse()
+      .slice(0, limit);
+    return ok(structuredClone(entries));
+  }
+
+  private routeAuditLog(ctx: RouteContext): RouteResult {
+    const { query } = ctx;
+    const since = query.get('since');
+    const until = query.get('until');
+    const actor = query.get('actor');
+    const collection = query.get('collection');
+    const operation = query.get('operation');
+    const cursor = query.get('cursor');
+    const limit = Number(query.get('limit') || 100);
+
+    // Entries are stored oldest first; the cursor is the ID of the last entry returned
+    let entries = ctx.state.audit
+      .filter(
+        (entry) =>
+          (!since || entry.timestamp >= since) &&
+          (!until || entry.timestamp < until) &&
+          (!actor || entry.actor === actor) &&
+          (!collection || entry.collection === collection) &&
+          (!operation || entry.operation === operation)
+      )
+      .reverse();
+    if (cursor) {
+      const index = entries.findIndex((entry) => entry.id === cursor);
+      entries = index >= 0 ? entries.slice(index + 1) : [];
+    }
+
+    const data = entries.slice(0, limit);
+    const hasMore = entries.length > limit;
+    return ok(structuredClone(data), {
+      hasMore,
+      nextCursor: hasMore ? data[data.length - 1].id : null,
+      limit,
+    });
+  }
+
+  /**
+   * Restore a row to its state after the last change at or before `at`
+   */
+  private revertRow(ctx: RouteContext, collection: string, id: string): RouteResult {
+    this.assertAudited(ctx, collection);
+    const at = String(jsonBody(ctx).at || '');
+    const table = this.getTable(ctx, collection, false);
+    const entry = ctx.state.audit
+      .filter(
+        (e) =>
+          e.collection === collection &&
+          e.recordId === id &&
+          e.timestamp <= at &&
+          this.owns(ctx, table, (e.after || e.before)!)
+      )
+      .pop();
+    if (!entry) {
+      throw new LocalHttpError(409, `No history for ${collection}/${id} at ${at}`, 'no_history');
+    }
+
+    const existing = table!.rows.get(id);
+    if (!entry.after) {
+      if (existing) this.deleteRow(ctx, collection, id);
+      return ok(null);
+    }
+    if (!existing) return ok(this.insertRow(ctx, collection, entry.after));
+
+    // Fields added since then are cleared
+    const cleared = Object.fromEntries(
+      Object.keys(existing)
+        .filter((field) => !(field in entry.after!))
+        .map((field) => [field, null])
+    );
+    return ok(this.updateRow(ctx, collection, id, { ...cleared, ...entry.after }));
+  }
+
+  private routeDocument(ctx: RouteContext, collection: string, id: string): RouteResult {
+    switch (ctx.method) {
+      case 'GET': {
+        const table = this.getTable(ctx, collection, false);
+        const row = table?.rows.get(id);
+        if (!row || !this.owns(ctx, table, row)) throw new LocalHttpError(404, `Document not found: ${id}`);
+        return ok(this.shapeRows(ctx, collection, [row])[0]);
+      }
+      case 'PATCH': {
+        // Rows outside `where`, e.g. soft-deleted ones, count as missing
+        const where = this.parseWhere(ctx);
+        const existing = this.getTable(ctx, collection, false)?.rows.get(id);
+        if (where && existing && !matchesWhere(existing, where)) {
+          throw new LocalHttpError(404, `Document not found: ${id}`);
+        }
+        return ok(this.updateRow(ctx, collection, id, jsonBody(ctx)));
+      }
+      case 'DELETE':
+        this.deleteRow(ctx, collection, id);
+        return ok({ deleted: true });
+    }
+    throw new LocalHttpError(405, 'Method not allowed');
+  }
+
+  private parseWhere(ctx: RouteContext): WhereClause | undefined {
+    const where = ctx.query.get('where');
+    if (!where) return undefined;
+    try {
+      return JSON.parse(where);
+    } catch {
+      throw new LocalHttpError(400, 'Invalid where clause');
+    }
+  }
+
+  private matchingRows(ctx: RouteContext, collection: string, where?: WhereClause): BaseRecord[] {
+    const table = this.getTable(ctx, collection, false);
+    const rows = Array.from(table?.rows.values() || []).filter((row) => this.owns(ctx, table, row));
+    return where ? rows.filter((row) => matchesWhere(row, where)) : rows;
+  }
+
+  private queryRows(ctx: RouteContext, collection: string): RouteResult {
+    const { query } = ctx;
+    let rows = this.matchingRows(ctx, collection, this.parseWhere(ctx));
+
+    const orderBy = query.get('orderBy');
+    const direction = query.get('orderDirection') === 'desc' ? -1 : 1;
+    const limit = query.get('limit') ? Number(query.get('limit')) : undefined;
+
+    if (query.get('pagination') === 'cursor') {
+      const key = orderBy || 'created_at';
+      rows.sort(
+        (a, b) =>
+          direction * (compareValues(getFieldValue(a, key), getFieldValue(b, key)) || compareValues(a.id, b.id))
+      );
+
+      const cursor = query.get('cursor');
+      if (cursor) {
+        const after = JSON.parse(cursor) as { value: unknown; id: string };
+        rows = rows.filter((row) => {
+          const diff = compareValues(getFieldValue(row, key), after.value) || compareValues(row.id, after.id);
+          return direction * diff > 0;
+        });
+      }
+
+      const pageSize = limit || rows.length;
+      const data = rows.slice(0, pageSize);
+      const hasMore = rows.length > pageSize;
+      const last = data[data.length - 1];
+      const nextCursor =
+        hasMore && last ? JSON.stringify({ value: getFieldValue(last, key), id: last.id }) : null;
+
+      return ok(this.shapeRows(ctx, collection, data), { hasMore, nextCursor, limit: pageSize });
+    }
+
+    if (orderBy) {
+      rows.sort((a, b) => direction * compareValues(getFieldValue(a, orderBy), getFieldValue(b, orderBy)));
+    }
+    const offset = Number(query.get('offset') || 0);
+    rows = rows.slice(offset, limit !== undefined ? offset + limit : undefined);
+
+    return ok(this.shapeRows(ctx, collection, rows));
+  }
+
+  /**
+   * Copy rows for a response, applying `select` and `include` from the query string
+   */
+  private shapeRows(
+    ctx: RouteContext,
+    collection: string,
+    rows: BaseRecord[]
+  ): Record<string, unknown>[] {
+    const select = ctx.query.get('select')?.split(',').filter(Boolean);
+    const include = Object.entries(this.parseInclude(ctx) || {}).map(
+      ([name, spec]) => [name, this.resolveRelation(ctx, collection, name, spec)] as const
+    );
+    const softDelete = new Set(ctx.query.get('softDelete')?.split(',').filter(Boolean));
+
+    return rows.map((row) => {
+      const shaped = project(row, select);
+      for (const [name, relation] of include) {
+        shaped[name] = this.loadRelation(ctx, relation, row, softDelete.has(relation.collection));
+      }
+      return shaped;
+    });
+  }
+
+  private parseInclude(ctx: RouteContext): IncludeClause | undefined {
+    const include = ctx.query.get('include');
+    if (!include) return undefined;
+    try {
+      return JSON.parse(include);
+    } catch {
+      throw new LocalHttpError(400, 'Invalid include clause');
+    }
+  }
+
+  /**
+   * Resolve an include to a relation, inline or declared in the table's schema
+   */
+  private resolveRelation(
+    ctx: RouteContext,
+    collection: string,
+    name: string,
+    spec: IncludeClause[string]
+  ): RelationDefinition & IncludeOptions {
+    if (spec !== true && 'collection' in spec) return spec;
+
+    const declared = ctx.state.tables.get(collection)?.relations?.[name];
+    if (!declared) {
+      throw new LocalHttpError(400, `Unknown relation ${name} on ${collection}`, 'unknown_relation');
+    }
+    return spec === true ? declared : { ...declared, ...spec };
+  }
+
+  /**
+   * @param hideDeleted - Leave out related rows with `deleted_at` set
+   */
+  private loadRelation(
+    ctx: RouteContext,
+    relation: RelationDefinition & IncludeOptions,
+    row: BaseRecord,
+    hideDeleted: boolean
+  ): Record<string, unknown> | Record<string, unknown>[] | null {
+    if (relation.type === 'belongsTo') {
+      const foreignId = getFieldValue(row, relation.foreignKey);
+      const table = this.getTable(ctx, relation.collection, false);
+      const related = table?.rows.get(String(foreignId));
+      if (!related || !this.owns(ctx, table, related)) return null;
+      if (hideDeleted && related.deleted_at) return null;
+      if (relation.where && !matchesWhere(related, relation.where)) return null;
+      return project(related, relation.select);
+    }
+
+    let related = this.matchingRows(ctx, relation.collection, relation.where).filter(
+      (candidate) =>
+        getFieldValue(candidate, relation.foreignKey) === row.id && !(hideDeleted && candidate.deleted_at)
+    );
+    const { orderBy } = relation;
+    if (orderBy) {
+      const direction = relation.orderDirection === 'desc' ? -1 : 1;
+      related.sort(
+        (a, b) => direction * compareValues(getFieldValue(a, orderBy), getFieldValue(b, orderBy))
+      );
+    }
+    if (relation.limit !== undefined) related = related.slice(0, relation.limit);
+    return related.map((candidate) => project(candidate, relation.select));
+  }
+
+  private countRows(ctx: RouteContext, collection: string): RouteResult {
+    return ok({ count: this.matchingRows(ctx, collection, this.parseWhere(ctx)).length });
+  }
+
+  private aggregateRows(ctx: RouteContext, collection: string): RouteResult {
+    const { query } = ctx;
+    const rows = this.matchingRows(ctx, collection, this.parseWhere(ctx));
+    const groupBy = query.get('groupBy')?.split(',').filter(Boolean) || [];
+    const metrics = this.parseJsonParam<AggregateMetrics>(ctx, 'metrics') || {};
+    const timeBucket = this.parseJsonParam<AggregateOptions['timeBucket']>(ctx, 'timeBucket');
+
+    const groups = new Map<
+      string,
+      { group: Record<string, unknown>; bucket?: string | null; rows: BaseRecord[] }
+    >();
+    // Without grouping, an empty match still yields one group, like SQL
+    if (groupBy.length === 0 && !timeBucket) groups.set('', { group: {}, rows: [] });
+
+    for (const row of rows) {
+      const group = Object.fromEntries(
+        groupBy.map((field) => [field, getFieldValue(row, field) ?? null])
+      );
+      const bucket = timeBucket
+        ? bucketStart(getFieldValue(row, timeBucket.field), timeBucket.interval)
+        : undefined;
+      const key = groupBy.length === 0 && !timeBucket ? '' : JSON.stringify([group, bucket]);
+      if (!groups.has(key)) groups.set(key, { group, bucket, rows: [] });
+      groups.get(key)!.rows.push(row);
+    }
+
+    let results: AggregateRow[] = Array.from(groups.values()).map((entry) => ({
+      group: entry.group,
+      ...(timeBucket ? { bucket: entry.bucket ?? undefined } : {}),
+      ...computeMetrics(entry.rows, metrics),
+    }));
+
+    const orderBy = query.get('orderBy') || (timeBucket ? 'bucket' : undefined);
+    if (orderBy) {
+      const direction = query.get('orderDirection') === 'desc' ? -1 : 1;
+      const valueOf = (result: AggregateRow) =>
+        groupBy.includes(orderBy)
+          ? result.group[orderBy]
+          : getFieldValue(result as unknown as Record<string, unknown>, orderBy);
+      results.sort((a, b) => direction * compareValues(valueOf(a), valueOf(b)));
+    }
+    const limit = query.get('limit');
+    if (limit) results = results.slice(0, Number(limit));
+
+    return ok(results);
+  }
+
+  /**
+   * Rank rows by how well their fields match every query term
+   *
+   * Earlier fields weigh more; the last term also matches as a prefix.
+   */
+  private searchRows(ctx: RouteContext, collection: string): RouteResult {
+    const { query } = ctx;
+    const terms = tokenize(query.get('q') || '');
+    const typos = query.get('typoTolerance') !== 'false';
+    const limit = Number(query.get('limit') || 20);
+    const highlight = this.parseJsonParam<boolean | { pre: string; post: string }>(ctx, 'highlight');
+    const tags = highlight === true ? { pre: '<mark>', post: '</mark>' } : highlight || null;
+
+    const requested = query.get('fields')?.split(',').filter(Boolean);
+    const declared = this.getTable(ctx, collection, false)
+      ?.columns.filter((column) => column.searchable)
+      .map((column) => column.name);
+    const fields = requested?.length ? requested : declared?.length ? declared : null;
+
+    const termScore = (word: string) =>
+      terms.map((term, i) => matchWord(term, word, i === terms.length - 1, typos));
+
+    const hits: { row: BaseRecord; texts: [string, string][]; score: number }[] = [];
+    for (const row of this.matchingRows(ctx, collection, this.parseWhere(ctx))) {
+      // Without declared searchable columns, every string column is searched
+      const rowFields = fields || Object.keys(row).filter((key) => key !== 'id');
+      const texts = rowFields
+        .map((field) => [field, getFieldValue(row, field)] as const)
+        .filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+
+      const best = terms.map(() => 0);
+      texts.forEach(([, text], index) => {
+        const weight = 1 / (index + 1);
+        for (const word of tokenize(text)) {
+          termScore(word).forEach((score, i) => {
+            best[i] = Math.max(best[i], score * weight);
+          });
+        }
+      });
+
+      if (terms.length > 0 && best.every((score) => score > 0)) {
+        hits.push({ row, texts, score: best.reduce((sum, score) => sum + score, 0) });
+      }
+    }
+
+    hits.sort((a, b) => b.score - a.score);
+
+    return ok(
+      hits.slice(0, limit).map(({ row, texts, score }) => {
+        if (!tags) return { record: structuredClone(row), score };
+        const highlights: Record<string, string> = {};
+        for (const [field, text] of texts) {
+          let matched = false;
+          // Words never contain HTML special characters; only the gaps need escaping
+          const marked = text.replace(WORD_OR_GAP, (part, word?: string) => {
+            if (!word) return escapeHtml(part);
+            if (!termScore(word.toLowerCase()).some((value) => value > 0)) return word;
+            matched = true;
+            return `${tags.pre}${word}${tags.post}`;
+          });
+          if (matched) highlights[field] = marked;
+        }
+        return { record: structuredClone(row), score, highlights };
+      })
+    );
+  }
+
+  private parseJsonParam<T>(ctx: RouteContext, name: string): T | undefined {
+    const value = ctx.query.get(name);
+    if (!value) return undefined;
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new LocalHttpError(400, `Invalid ${name} parameter`);
+    }
+  }
+
+  // ============================================================================
+  // Bulk Operations
+  // ============================================================================
+
+  private runBulk(items: Array<() => BaseRecord>): BulkResult<BaseRecord> {
+    const results: BulkRowResult<BaseRecord>[] = items.map((run, index) => {
+      try {
+        return { index, success: true, data: run() };
+      } catch (error) {
+        if (!(error instanceof LocalHttpError)) throw error;
+        return { index, success: false, error: error.message };
+      }
+    });
+
+    const data = results.filter((r) => r.success).map((r) => r.data!);
+    return {
+      data,
+      results,
+      successCount: data.length,
+      errorCount: results.length - data.length,
+    };
+  }
+
+  private routeBulk(ctx: RouteContext, collection: string): RouteResult {
+    const body = jsonBody(ctx) as {
+      rows?: Record<string, unknown>[];
+      where?: WhereClause;
+      patch?: Record<string, unknown>;
+      conflictKey?: string[];
+    };
+
+    switch (ctx.method) {
+      case 'POST':
+        return ok(
+          this.runBulk(
+            (body.rows || []).map((row) => () => this.insertRow(ctx, collection, row))
+          )
+        );
+      case 'PATCH': {
+        const ids = this.matchingRows(ctx, collection, body.where).map((r) => r.id);
+        return ok(this.runBulk(ids.map((id) => () => this.updateRow(ctx, collection, id, body.patch || {}))));
+      }
+      case 'PUT': {
+        const conflictKey = body.conflictKey || [];
+        return ok(
+          this.runBulk(
+            (body.rows || []).map((row) => () => {
+              const existing = this.matchingRows(ctx, collection, body.where).find((candidate) =>
+                conflictKey.every((key) => JSON.stringify(candidate[key]) === JSON.stringify(row[key]))
+              );
+              return existing
+                ? this.updateRow(ctx, collection, existing.id, row)
+                : this.insertRow(ctx, collection, row);
+            })
+          )
+        );
+      }
+      case 'DELETE': {
+        const ids = this.matchingRows(ctx, collection, body.where).map((r) => r.id);
+        return ok(this.runBulk(ids.map((id) => () => this.deleteRow(ctx, collection, id))));
+      }
+    }
+    throw new LocalHttpError(405, 'Method not allowed');
+  }
+
+  // ============================================================================
+  // Key-Value Store
+  // ============================================================================
+
+  private routeKV(ctx: RouteContext, key?: string, action?: string): RouteResult {
+    const { method, query } = ctx;
+    const body = jsonBody(ctx) as {
+      key?: string;
+      value?: unknown;
+      ttlSeconds?: number;
+      entries?: Array<{ key: string; value: unknown; ttlSeconds?: number }>;
+      by?: number;
+      expectedVersion?: number;
+    };
+
+    if (!key) {
+      if (method === 'POST') {
+        const written = this.writeKV(ctx, body.key as string, body.value, body.ttlSeconds);
+        return ok(this.kvEntry(body.key as string, written));
+      }
+      if (method === 'PUT') {
+        const entries = body.entries || [];
+        for (const entry of entries) {
+          this.writeKV(ctx, entry.key, entry.value, entry.ttlSeconds);
+        }
+        return ok({ count: entries.length });
+      }
+      if (method === 'GET' && query.has('keys')) {
+        const keys = JSON.parse(query.get('keys')!) as string[];
+        const values: Record<string, unknown> = {};
+        for (const k of keys) {
+          const entry = this.readKV(ctx, k);
+          values[k] = entry ? structuredClone(entry.value) : null;
+        }
+        return ok(values);
+      }
+      if (method === 'GET') return this.listKV(ctx);
+    }
+
+    if (key && action === 'increment' && method === 'POST') {
+      const entry = this.readKV(ctx, key);
+      const current = entry ? entry.value : 0;
+      if (typeof current !== 'number') {
+        throw new LocalHttpError(400, `Value of ${key} is not a number`, 'not_a_number');
+      }
+      // The TTL only applies when the counter is created, giving fixed windows
+      const ttlSeconds = entry ? undefined : body.ttlSeconds;
+      const written = this.writeKV(ctx, key, current + (body.by ?? 1), ttlSeconds, entry);
+      return ok(this.kvEntry(key, written));
+    }
+    if (key && action === 'compare-and-set' && method === 'POST') {
+      const entry = this.readKV(ctx, key);
+      const currentVersion = entry ? entry.version : 0;
+      const expected = body.expectedVersion ?? 0;
+      if (currentVersion !== expected) {
+        return ok({ swapped: false, version: currentVersion });
+      }
+      const written = this.writeKV(ctx, key, body.value, body.ttlSeconds);
+      return ok({ swapped: true, version: written.version });
+    }
+    if (key && !action && method === 'GET') {
+      const entry = this.readKV(ctx, key);
+      if (!entry) throw new LocalHttpError(404, `Key not found: ${key}`);
+      return ok(this.kvEntry(key, entry));
+    }
+    if (key && !action && method === 'DELETE') {
+      ctx.state.kv.delete(key);
+      return ok({ deleted: true });
+    }
+    throw new LocalHttpError(405, 'Method not allowed');
+  }
+
+  /**
+   * Read a key, dropping it if it has expired
+   */
+  private readKV(ctx: RouteContext, key: string): LocalKVEntry | undefined {
+    const entry = ctx.state.kv.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      ctx.state.kv.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Write a key, bumping its version
+   *
+   * @param keepExpiryOf - Entry whose expiry is kept when no TTL is given
+   */
+  private writeKV(
+    ctx: RouteContext,
+    key: string,
+    value: unknown,
+    ttlSeconds?: number,
+    keepExpiryOf?: LocalKVEntry
+  ): LocalKVEntry {
+    if (typeof key !== 'string' || !key) throw new LocalHttpError(400, 'key is required');
+    const previous = this.readKV(ctx, key);
+    const entry: LocalKVEntry = {
+      value: structuredClone(value),
+      version: (previous?.version ?? 0) + 1,
+      expiresAt:
+        ttlSeconds !== undefined && ttlSeconds !== null
+          ? Date.now() + ttlSeconds * 1000
+          : keepExpiryOf?.expiresAt ?? null,
+    };
+    ctx.state.kv.set(key, entry);
+    return entry;
+  }
+
+  private kvEntry(key: string, entry: LocalKVEntry): Record<string, unknown> {
+    return {
+      key,
+      value: structuredClone(entry.value),
+      version: entry.version,
+      expiresAt: entry.expiresAt === null ? null : new Date(entry.expiresAt).toISOString(),
+    };
+  }
+
+  private listKV(ctx: RouteContext): RouteResult {
+    const prefix = ctx.query.get('prefix') || '';
+    const cursor = ctx.query.get('cursor');
+    const limit = Number(ctx.query.get('limit')) || 100;
+
+    const keys = [...ctx.state.kv.keys()]
+      .filter((k) => k.startsWith(prefix) && (!cursor || k > cursor) && this.readKV(ctx, k))
+      .sort();
+    const page = keys.slice(0, limit);
+    const hasMore = keys.length > limit;
+
+    return ok(
+      page.map((k) => this.kvEntry(k, ctx.state.kv.get(k)!)),
+      { hasMore, nextCursor: hasMore ? page[page.length - 1] : null }
+    );
+  }
+
+  // ============================================================================
+  // Storage
+  // ============================================================================
+
+  private routeStorage(ctx: RouteContext): RouteResult {
+    const [, resource, name, sub] = ctx.segments;
+    const { method } = ctx;
+
+    if (resource === 'buckets') {
+      if (!name) {
+        if (method === 'GET') {
+          return ok([...ctx.state.buckets.values()].map((bucket) => this.bucketInfo(bucket)));
+        }
+        if (method === 'POST') return this.createBucket(ctx);
+      } else if (!sub) {
+        if (method === 'PATCH') {
+          const bucket = this.getBucket(ctx, name);
+          const { public: isPublic } = jsonBody(ctx);
+          if (isPublic !== undefined) bucket.public = !!isPublic;
+          return ok(this.bucketInfo(bucket));
+        }
+        if (method === 'DELETE') {
+          const bucket = this.getBucket(ctx, name);
+          if (bucket.files.size > 0) {
+            throw new LocalHttpError(409, `Bucket ${name} is not empty`, 'bucket_not_empty');
+          }
+          ctx.state.buckets.delete(name);
+          return ok({ deleted: true });
+        }
+      } else if (sub === 'uploads' && method === 'POST') {
+        return ok(this.uploadState(ctx, this.startUpload(ctx, name)));
+      } else if (sub === 'upload-urls' && method === 'POST') {
+        return this.signUpload(ctx, name);
+      } else if (sub === 'files' && method === 'GET') {
+        return this.listFiles(ctx, name);
+      } else if (sub === 'files' && method === 'DELETE') {
+        return this.deleteFile(ctx, name, ctx.query.get('path') || '');
+      } else if (sub === 'signed-urls' && method === 'POST') {
+        return this.signUrl(ctx, name);
+      }
+    }
+
+    if (resource === 'uploads' && name) {
+      if (!sub && method === 'GET') return ok(this.uploadState(ctx, name));
+      if (!sub && method === 'PUT') return this.receiveChunk(ctx, name);
+      if (sub === 'complete' && method === 'POST') return this.completeUpload(ctx, name);
+    }
+
+    if (resource === 'signed-uploads' && name) {
+      const signed = this.signedUploads.get(name);
+      if (!signed || signed.projectId !== ctx.projectId || signed.expiresAt < Date.now()) {
+        throw new LocalHttpError(403, 'Signed upload URL is invalid or expired', 'invalid_signature');
+      }
+      if (!sub && method === 'GET') return ok(this.uploadState(ctx, signed.uploadId));
+      if (!sub && method === 'PUT') return this.receiveChunk(ctx, signed.uploadId);
+      if (sub === 'complete' && method === 'POST') {
+        const result = this.completeUpload(ctx, signed.uploadId);
+        this.signedUploads.delete(name);
+        return result;
+      }
+    }
+
+    if (method === 'GET' && resource === 'public' && name) {
+      const bucket = this.getBucket(ctx, name);
+      if (!bucket.public) {
+        throw new LocalHttpError(403, `Bucket ${name} is private; use a signed URL`, 'private_bucket');
+      }
+      return this.serveFile(bucket, ctx.segments.slice(3).join('/'));
+    }
+
+    if (method === 'GET' && resource === 'signed' && name) {
+      const signed = this.signedUrls.get(name);
+      if (!signed || signed.projectId !== ctx.projectId || signed.expiresAt < Date.now()) {
+        throw new LocalHttpError(403, 'Signed URL is invalid or expired', 'invalid_signature');
+      }
+      return this.serveFile(this.getBucket(ctx, signed.bucket), signed.path);
+    }
+
+    throw new LocalHttpError(404, `No route for ${method} /${ctx.segments.join('/')}`);
+  }
+
+  private bucketInfo(bucket: LocalBucket): BucketInfo {
+    return { name: bucket.name, public: bucket.public, createdAt: bucket.createdAt };
+  }
+
+  private getBucket(ctx: RouteContext, name: string): LocalBucket {
+    const bucket = ctx.state.buckets.get(name);
+    if (!bucket) throw new LocalHttpError(404, `Bucket not found: ${name}`);
+    return bucket;
+  }
+
+  private createBucket(ctx: RouteContext): RouteResult {
+    const { name, public: isPublic } = jsonBody(ctx);
+    if (typeof name !== 'string' || !name || name.includes('/')) {
+      throw new LocalHttpError(400, 'Bucket name is required and cannot contain /', 'invalid_bucket');
+    }
+    if (ctx.state.buckets.has(name)) {
+      throw new LocalHttpError(409, `Bucket already exists: ${name}`, 'bucket_exists');
+    }
+    const bucket: LocalBucket = {
+      name,
+      public: !!isPublic,
+      createdAt: new Date().toISOString(),
+      files: new Map(),
+    };
+    ctx.state.buckets.set(name, bucket);
+    return ok(this.bucketInfo(bucket));
+  }
+
+  /**
+   * Start an upload from the request body and return its ID
+   */
+  private startUpload(ctx: RouteContext, bucketName: string): string {
+    const bucket = this.getBucket(ctx, bucketName);
+    const { path, size, contentType, alt, upsert } = jsonBody(ctx);
+    if (typeof path !== 'string' || !path) {
+      throw new LocalHttpError(400, 'path is required', 'invalid_path');
+    }
+    if (bucket.files.has(path) && !upsert) {
+      throw new LocalHttpError(409, `File already exists: ${path}`, 'file_exists');
+    }
+
+    const uploadId = crypto.randomUUID();
+    this.uploads.set(uploadId, {
+      projectId: ctx.projectId,
+      bucket: bucketName,
+      path,
+      size: typeof size === 'number' ? size : null,
+      contentType: typeof contentType === 'string' && contentType ? contentType : 'application/octet-stream',
+      alt: typeof alt === 'string' ? alt : undefined,
+      upsert: !!upsert,
+      chunks: [],
+      received: 0,
+    });
+    return uploadId;
+  }
+
+  private getUpload(ctx: RouteContext, uploadId: string): LocalUpload {
+    const upload = this.uploads.get(uploadId);
+    if (!upload || upload.projectId !== ctx.projectId) {
+      throw new LocalHttpError(404, `Upload not found: ${uploadId}`);
+    }
+    return upload;
+  }
+
+  private uploadState(ctx: RouteContext, uploadId: string): Record<string, unknown> {
+    const upload = this.getUpload(ctx, uploadId);
+    return {
+      uploadId,
+      bucket: upload.bucket,
+      path: upload.path,
+      size: upload.size,
+      received: upload.received,
+    };
+  }
+
+  private receiveChunk(ctx: RouteContext, uploadId: string): RouteResult {
+    const upload = this.getUpload(ctx, uploadId);
+    if (!(ctx.body instanceof Uint8Array)) {
+      throw new LocalHttpError(400, 'Expected the chunk as binary data', 'invalid_chunk');
+    }
+    // A retried chunk that was already stored is acknowledged again
+    const offset = Number(ctx.query.get('offset'));
+    if (offset + ctx.body.length === upload.received) return ok(this.uploadState(ctx, uploadId));
+    if (offset !== upload.received) {
+      throw new LocalHttpError(
+        409,
+        `Chunk starts at ${offset}, but ${upload.received} bytes were received`,
+        'offset_mismatch'
+      );
+    }
+    if (upload.size !== null && upload.received + ctx.body.length > upload.size) {
+      throw new LocalHttpError(400, `Upload is larger than its declared ${upload.size} bytes`, 'too_large');
+    }
+
+    upload.chunks.push(ctx.body.slice());
+    upload.received += ctx.body.length;
+    return ok(this.uploadState(ctx, uploadId));
+  }
+
+  private completeUpload(ctx: RouteContext, uploadId: string): RouteResult {
+    const upload = this.getUpload(ctx, uploadId);
+    if (upload.size !== null && upload.received !== upload.size) {
+      throw new LocalHttpError(
+        409,
+        `Upload has ${upload.received} of ${upload.size} bytes`,
+        'incomplete_upload'
+      );
+    }
+    const bucket = this.getBucket(ctx, upload.bucket);
+    const existing = bucket.files.get(upload.path);
+    if (existing && !upload.upsert) {
+      throw new LocalHttpError(409, `File already exists: ${upload.path}`, 'file_exists');
+    }
+
+    const bytes = new Uint8Array(upload.received);
+    let offset = 0;
+    for (const chunk of upload.chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    const encodedPath = upload.path.split('/').map(encodeURIComponent).join('/');
+    const fields: Record<string, unknown> = {
+      filename: upload.path.split('/').pop(),
+      url: `${ctx.baseUrl}/storage/public/${encodeURIComponent(bucket.name)}/${encodedPath}`,
+      mimeType: upload.contentType,
+      size: bytes.length,
+      bucket: bucket.name,
+      path: upload.path,
+      ...(upload.alt !== undefined ? { alt: upload.alt } : {}),
+    };
+    const media =
+      existing && this.getTable(ctx, MEDIA_COLLECTION, false)?.rows.has(existing.mediaId)
+        ? this.updateRow(ctx, MEDIA_COLLECTION, existing.mediaId, fields)
+        : this.insertRow(ctx, MEDIA_COLLECTION, { ...fields, createdAt: new Date().toISOString() });
+
+    bucket.files.set(upload.path, { bytes, mimeType: upload.contentType, mediaId: media.id });
+    this.uploads.delete(uploadId);
+    return ok(media);
+  }
+
+  private listFiles(ctx: RouteContext, bucketName: string): RouteResult {
+    const bucket = this.getBucket(ctx, bucketName);
+    const prefix = ctx.query.get('prefix') || '';
+    const cursor = ctx.query.get('cursor');
+    const limit = Number(ctx.query.get('limit')) || 100;
+    const media = this.getTable(ctx, MEDIA_COLLECTION, false);
+
+    const paths = [...bucket.files.keys()]
+      .filter((path) => path.startsWith(prefix) && (!cursor || path > cursor))
+      .sort();
+    const page = paths.slice(0, limit);
+    const hasMore = paths.length > limit;
+
+    return ok(
+      page.flatMap((path) => {
+        const row = media?.rows.get(bucket.files.get(path)!.mediaId);
+        return row ? [structuredClone(row)] : [];
+      }),
+      { hasMore, nextCursor: hasMore ? page[page.length - 1] : null }
+    );
+  }
+
+  private deleteFile(ctx: RouteContext, bucketName: string, path: string): RouteResult {
+    const bucket = this.getBucket(ctx, bucketName);
+    const file = bucket.files.get(path);
+    if (!file) throw new LocalHttpError(404, `File not found: ${path}`);
+
+    if (this.getTable(ctx, MEDIA_COLLECTION, false)?.rows.has(file.mediaId)) {
+      this.deleteRow(ctx, MEDIA_COLLECTION, file.mediaId);
+    }
+    bucket.files.delete(path);
+    return ok({ deleted: true });
+  }
+
+  private signUrl(ctx: RouteContext, bucketName: string): RouteResult {
+    const bucket = this.getBucket(ctx, bucketName);
+    const { path, expiresIn: requested } = jsonBody(ctx);
+    if (typeof path !== 'string' || !bucket.files.has(path)) {
+      throw new LocalHttpError(404, `File not found: ${path}`);
+    }
+    const expiresIn = Number(requested ?? 3600);
+    if (!(expiresIn > 0)) {
+      throw new LocalHttpError(400, 'expiresIn must be a positive number of seconds', 'invalid_expiry');
+    }
+
+    const token = crypto.randomUUID();
+    const expiresAt = Date.now() + expiresIn * 1000;
+    this.signedUrls.set(token, { projectId: ctx.projectId, bucket: bucketName, path, expiresAt });
+    return ok({
+      url: `${ctx.baseUrl}/storage/signed/${token}`,
+      expiresAt: new Date(expiresAt).toISOString(),
+    });
+  }
+
+  private signUpload(ctx: RouteContext, bucketName: string): RouteResult {
+    const expiresIn = Number(jsonBody(ctx).expiresIn ?? 3600);
+    if (!(expiresIn > 0)) {
+      throw new LocalHttpError(400, 'expiresIn must be a positive number of seconds', 'invalid_expiry');
+    }
+    const uploadId = this.startUpload(ctx, bucketName);
+
+    const token = crypto.randomUUID();
+    const expiresAt = Date.now() + expiresIn * 1000;
+    this.signedUploads.set(token, { projectId: ctx.projectId, uploadId, expiresAt });
+    return ok({
+      url: `${ctx.baseUrl}/storage/signed-uploads/${token}`,
+      uploadId,
+      expiresAt: new Date(expiresAt).toISOString(),
+    });
+  }
+
+  private serveFile(bucket: LocalBucket, path: string): RouteResult {
+    const file = bucket.files.get(path);
+    if (!file) throw new LocalHttpError(404, `File not found: ${path}`);
+    return { status: 200, body: {}, file: { bytes: file.bytes, mimeType: file.mimeType } };
+  }
+}
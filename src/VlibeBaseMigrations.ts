@@ -0,0 +1,313 @@
+import type { VlibeBaseDatabase } from './VlibeBaseDatabase';
+import type {
+  AlterTableOperation,
+  AppliedMigration,
+  DatabaseSchema,
+  SchemaDiff,
+  TableColumn,
+  TableInfo,
+  TableSchema,
+} from './types';
+import { VlibeValidationError } from './errors';
+import { SYSTEM_COLUMNS } from './schema';
+
+/**
+ * KV key holding the list of applied migrations
+ */
+const DEFAULT_STATE_KEY = '__vlibe_migrations';
+
+/**
+ * A versioned schema migration
+ */
+export interface Migration<S extends DatabaseSchema = DatabaseSchema> {
+  /** Unique, increasing version number (e.g. 1, 2, 3 or 20250101) */
+  version: number;
+  name: string;
+  up(db: VlibeBaseDatabase<S>): Promise<unknown>;
+  down?(db: VlibeBaseDatabase<S>): Promise<unknown>;
+}
+
+/**
+ * Result of running migrations
+ */
+export interface MigrationRunResult {
+  direction: 'up' | 'down';
+  /** Migrations that ran (or would run, with `dryRun`) in order */
+  migrations: Array<{ version: number; name: string }>;
+  dryRun: boolean;
+}
+
+/**
+ * Declare a migration with type checking
+ */
+export function defineMigration<S extends DatabaseSchema = DatabaseSchema>(
+  migration: Migration<S>
+): Migration<S> {
+  return migration;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Compare a declared table schema with the live table
+ *
+ * Renames cannot be detected and show up as a drop plus an add.
+ *
+ * @param live - Live table info, or null if the table does not exist
+ */
+export function diffTableSchema(
+  table: string,
+  declared: TableSchema,
+  live: TableInfo | null
+): SchemaDiff {
+  if (!live) {
+    return { table, create: true, operations: [], warnings: [] };
+  }
+
+  const operations: AlterTableOperation[] = [];
+  const warnings: string[] = [];
+  const liveColumns = new Map<string, TableColumn>(live.columns.map((c) => [c.name, c]));
+  const declaredNames = new Set(declared.columns.map((c) => c.name));
+
+  for (const column of declared.columns) {
+    const existing = liveColumns.get(column.name);
+    if (!existing) {
+      operations.push({ type: 'addColumn', column });
+      continue;
+    }
+
+    if (existing.type !== column.type) {
+      warnings.push(
+        `${table}.${column.name}: type changed from ${existing.type} to ${column.type}; migrate the data manually`
+      );
+    }
+    if (!!existing.required !== !!column.required) {
+      warnings.push(
+        `${table}.${column.name}: required changed to ${!!column.required}; migrate the data manually`
+      );
+    }
+    if (!sameValue(existing.default, column.default)) {
+      operations.push(
+        column.default === undefined
+          ? { type: 'dropDefault', name: column.name }
+          : { type: 'setDefault', name: column.name, default: column.default }
+      );
+    }
+    if (column.unique && !existing.unique) {
+      operations.push({ type: 'addUnique', name: column.name });
+    } else if (!column.unique && existing.unique) {
+      warnings.push(`${table}.${column.name}: removing a unique constraint is not supported`);
+    }
+  }
+
+  // Columns managed by the database are never declared
+  for (const name of liveColumns.keys()) {
+    if (!declaredNames.has(name) && !SYSTEM_COLUMNS.has(name)) {
+      operations.push({ type: 'dropColumn', name });
+    }
+  }
+
+  if (!!declared.audit !== !!live.audit) {
+    operations.push({ type: 'setAudit', enabled: !!declared.audit });
+  }
+
+  if ((declared.ownerField || null) !== (live.ownerField || null)) {
+    operations.push({ type: 'setOwnerField', field: declared.ownerField || null });
+  }
+
+  return { table, create: false, operations, warnings };
+}
+
+/**
+ * VlibeBaseMigrations - Versioned schema migrations for Vlibe Base apps
+ *
+ * Applies migrations in version order and records applied versions in the
+ * project's key-value store, so every environment knows where it stands.
+ *
+ * @example
+ * ```typescript
+ * import { VlibeBaseMigrations, defineMigration } from '@withvlibe/base-sdk';
+ *
+ * const addWeight = defineMigration({
+ *   version: 2,
+ *   name: 'add-product-weight',
+ *   up: (db) => db.alterTable('products', [
+ *     { type: 'addColumn', column: { name: 'weight', type: 'number', default: 0 } },
+ *   ]),
+ *   down: (db) => db.alterTable('products', [
+ *     { type: 'dropColumn', name: 'weight' },
+ *   ]),
+ * });
+ *
+ * const migrations = new VlibeBaseMigrations(db, [createProducts, addWeight]);
+ * await migrations.up();
+ * ```
+ */
+export class VlibeBaseMigrations<S extends DatabaseSchema = DatabaseSchema> {
+  private migrations: Migration<S>[];
+  private stateKey: string;
+
+  /**
+   * @param db - Database to migrate
+   * @param migrations - All known migrations, in any order
+   * @param options - `stateKey` overrides the KV key used to record applied versions
+   * @throws VlibeValidationError if two migrations share a version
+   */
+  constructor(
+    private db: VlibeBaseDatabase<S>,
+    migrations: Migration<S>[],
+    options: { stateKey?: string } = {}
+  ) {
+    const seen = new Set<number>();
+    for (const migration of migrations) {
+      if (seen.has(migration.version)) {
+        throw new VlibeValidationError(`Duplicate migration version: ${migration.version}`, [
+          { field: 'version', message: `${migration.version} is used more than once` },
+        ]);
+      }
+      seen.add(migration.version);
+    }
+
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.stateKey = options.stateKey || DEFAULT_STATE_KEY;
+  }
+
+  /**
+   * Get applied and pending migrations
+   */
+  async status(): Promise<{ applied: AppliedMigration[]; pending: Migration<S>[] }> {
+    const applied = await this.getApplied();
+    const appliedVersions = new Set(applied.map((m) => m.version));
+    return {
+      applied,
+      pending: this.migrations.filter((m) => !appliedVersions.has(m.version)),
+    };
+  }
+
+  /**
+   * Apply pending migrations in version order
+   *
+   * Each migration is recorded as soon as it succeeds, so a failure leaves
+   * earlier migrations applied and stops before later ones.
+   *
+   * @param options - `to` stops after this version; `dryRun` lists without running
+   */
+  async up(options: { to?: number; dryRun?: boolean } = {}): Promise<MigrationRunResult> {
+    const { pending } = await this.status();
+    const toRun = pending.filter((m) => options.to === undefined || m.version <= options.to);
+    const result: MigrationRunResult = {
+      direction: 'up',
+      migrations: toRun.map(({ version, name }) => ({ version, name })),
+      dryRun: !!options.dryRun,
+    };
+    if (options.dryRun) return result;
+
+    for (const migration of toRun) {
+      await migration.up(this.db);
+      const applied = await this.getApplied();
+      applied.push({
+        version: migration.version,
+        name: migration.name,
+        appliedAt: new Date().toISOString(),
+      });
+      await this.setApplied(applied);
+    }
+
+    return result;
+  }
+
+  /**
+   * Revert applied migrations, newest first
+   *
+   * @param options - `to` reverts every migration above this version (default:
+   * only the latest); `dryRun` lists without running
+   * @throws VlibeValidationError if a migration to revert has no `down`
+   */
+  async down(options: { to?: number; dryRun?: boolean } = {}): Promise<MigrationRunResult> {
+    const applied = (await this.getApplied()).sort((a, b) => b.version - a.version);
+    const toRevert =
+      options.to === undefined ? applied.slice(0, 1) : applied.filter((m) => m.version > options.to!);
+
+    const migrations = toRevert.map((record) => {
+      const migration = this.migrations.find((m) => m.version === record.version);
+      if (!migration?.down) {
+        throw new VlibeValidationError(
+          `Migration ${record.version} (${record.name}) cannot be reverted: no down() defined`,
+          [{ field: 'down', message: `missing for version ${record.version}` }]
+        );
+      }
+      return migration;
+    });
+
+    const result: MigrationRunResult = {
+      direction: 'down',
+      migrations: migrations.map(({ version, name }) => ({ version, name })),
+      dryRun: !!options.dryRun,
+    };
+    if (options.dryRun) return result;
+
+    for (const migration of migrations) {
+      await migration.down!(this.db);
+      const remaining = (await this.getApplied()).filter((m) => m.version !== migration.version);
+      await this.setApplied(remaining);
+    }
+
+    return result;
+  }
+
+  /**
+   * Compare declared table schemas with the live tables without changing anything
+   */
+  async diff(tables: Record<string, TableSchema>): Promise<SchemaDiff[]> {
+    const diffs: SchemaDiff[] = [];
+    for (const [name, schema] of Object.entries(tables)) {
+      const live = await this.db.getTable(name);
+      diffs.push(diffTableSchema(name, schema, live));
+    }
+    return diffs;
+  }
+
+  /**
+   * Bring live tables in line with the declared schemas
+   *
+   * Missing tables are created and safe changes applied. Columns are only
+   * dropped with `allowDrop`; warnings are never applied.
+   *
+   * @returns The planned changes (not applied when `dryRun` is set)
+   */
+  async sync(
+    tables: Record<string, TableSchema>,
+    options: { dryRun?: boolean; allowDrop?: boolean } = {}
+  ): Promise<SchemaDiff[]> {
+    const diffs = (await this.diff(tables)).map((diff) => ({
+      ...diff,
+      operations: options.allowDrop
+        ? diff.operations
+        : diff.operations.filter((op) => op.type !== 'dropColumn'),
+    }));
+    if (options.dryRun) return diffs;
+
+    for (const diff of diffs) {
+      if (diff.create) {
+        await this.db.createTable(diff.table, tables[diff.table]);
+      } else if (diff.operations.length > 0) {
+        await this.db.alterTable(diff.table, diff.operations);
+      }
+    }
+
+    return diffs;
+  }
+
+  private async getApplied(): Promise<AppliedMigration[]> {
+    return (await this.db.getKV<AppliedMigration[]>(this.stateKey)) || [];
+  }
+
+  private async setApplied(applied: AppliedMigration[]): Promise<void> {
+    await this.db.setKV(
+      this.stateKey,
+      [...applied].sort((a, b) => a.version - b.version)
+    );
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * VlibeBaseOfflineStore - Local replica and write queue for offline mode
+ *
+ * Keeps every record this client has read or written, per collection, and
+ * the writes made while the server could not be reached, in an
+ * `OfflineStorage`. The replica answers queries with where clauses,
+ * ordering, offset, limit and `select` while offline.
+ */
+
+import type {
+  BaseRecord,
+  OfflineStorage,
+  PendingMutation,
+  QueryOptions,
+  SyncResult,
+  WhereClause,
+} from './types';
+import { compareValues, getFieldValue, matchesWhere } from './filters';
+
+type RecordMap = Record<string, BaseRecord>;
+
+export class VlibeBaseOfflineStore {
+  /** False after a request failed to reach the server, until one succeeds */
+  online = true;
+  /** The sync in progress, shared by concurrent callers */
+  syncing: Promise<SyncResult> | null = null;
+  /** Background sync scheduled after one that left writes pending */
+  retryTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Background syncs in a row that left writes pending */
+  retryAttempt = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param namespace - Prefix for every storage key, e.g. the project ID
+   */
+  constructor(
+    private storage: OfflineStorage,
+    private namespace: string
+  ) {}
+
+  /**
+   * Queued writes, oldest first
+   */
+  async pending(): Promise<PendingMutation[]> {
+    return (await this.storage.get<PendingMutation[]>(this.key('queue'))) || [];
+  }
+
+  async enqueue(mutation: PendingMutation): Promise<void> {
+    await this.exclusive(async () => {
+      await this.storage.set(this.key('queue'), [...(await this.pending()), mutation]);
+    });
+  }
+
+  async dequeue(id: string): Promise<void> {
+    await this.exclusive(async () => {
+      const remaining = (await this.pending()).filter((mutation) => mutation.id !== id);
+      await this.storage.set(this.key('queue'), remaining);
+    });
+  }
+
+  async getRecord(collection: string, id: string): Promise<BaseRecord | null> {
+    return (await this.records(collection))[id] || null;
+  }
+
+  /**
+   * Add or replace records in the replica
+   */
+  async putRecords(collection: string, rows: BaseRecord[]): Promise<void> {
+    if (rows.length === 0) return;
+    await this.exclusive(async () => {
+      const records = await this.records(collection);
+      for (const row of rows) records[row.id] = row;
+      await this.storage.set(this.key(`records:${collection}`), records);
+    });
+  }
+
+  async removeRecords(collection: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.exclusive(async () => {
+      const records = await this.records(collection);
+      for (const id of ids) delete records[id];
+      await this.storage.set(this.key(`records:${collection}`), records);
+    });
+  }
+
+  /**
+   * Replace the replica's records matching `where` with a complete result
+   *
+   * Records that match but are missing from `rows` were deleted on the server.
+   */
+  async replaceMatching(
+    collection: string,
+    where: WhereClause | undefined,
+    rows: BaseRecord[]
+  ): Promise<void> {
+    await this.exclusive(async () => {
+      const records = await this.records(collection);
+      for (const [id, record] of Object.entries(records)) {
+        if (!where || matchesWhere(record, where)) delete records[id];
+      }
+      for (const row of rows) records[row.id] = row;
+      await this.storage.set(this.key(`records:${collection}`), records);
+    });
+  }
+
+  /**
+   * Query the replica
+   *
+   * @param isVisible - Filters rows before `where`, e.g. to hide soft-deleted ones
+   */
+  async query(
+    collection: string,
+    options: Pick<QueryOptions, 'where' | 'orderBy' | 'orderDirection' | 'limit' | 'offset' | 'select'>,
+    isVisible: (row: BaseRecord) => boolean = () => true
+  ): Promise<BaseRecord[]> {
+    const { where, orderBy, select } = options;
+    let rows = Object.values(await this.records(collection)).filter(
+      (row) => isVisible(row) && (!where || matchesWhere(row, where))
+    );
+
+    if (orderBy) {
+      const direction = options.orderDirection === 'desc' ? -1 : 1;
+      rows.sort((a, b) => direction * compareValues(getFieldValue(a, orderBy), getFieldValue(b, orderBy)));
+    }
+    const offset = options.offset || 0;
+    rows = rows.slice(offset, options.limit !== undefined ? offset + options.limit : undefined);
+
+    if (!select?.length) return rows;
+    return rows.map(
+      (row) =>
+        Object.fromEntries(
+          Object.entries(row).filter(([key]) => key === 'id' || (select as string[]).includes(key))
+        ) as BaseRecord
+    );
+  }
+
+  private async records(collection: string): Promise<RecordMap> {
+    return (await this.storage.get<RecordMap>(this.key(`records:${collection}`))) || {};
+  }
+
+  private key(name: string): string {
+    return `${this.namespace}:${name}`;
+  }
+
+  /**
+   * Run read-modify-write steps one at a time
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(fn);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+}
@@ -35,32 +35,25 @@ import type {
   Transaction,
   RefundOptions,
   ConnectStatus,
+  RetryPolicy,
+  RequestOptions,
 } from './types';
-
-const DEFAULT_BASE_URL = 'https://vlibe.app';
-
-/**
- * Get the base URL from environment or config
- */
-function resolveBaseUrl(configBaseUrl?: string): string {
-  if (configBaseUrl) return configBaseUrl;
-  if (typeof process !== 'undefined' && process.env) {
-    if (process.env.VLIBE_BASE_URL) return process.env.VLIBE_BASE_URL;
-    if (process.env.NEXT_PUBLIC_VLIBE_BASE_URL) return process.env.NEXT_PUBLIC_VLIBE_BASE_URL;
-  }
-  return DEFAULT_BASE_URL;
-}
+import { VlibeNotFoundError, VlibeValidationError } from './errors';
+import { resolveRetryPolicy } from './retry';
+import { VlibeBaseTransport, resolveBaseUrl } from './VlibeBaseTransport';
 
 export class VlibeBasePayments {
   private appId: string;
   private appSecret: string;
   private baseUrl: string;
+  private retryPolicy: Required<RetryPolicy>;
+  private transport: VlibeBaseTransport;
 
   /**
    * Create a new VlibeBasePayments instance
    *
    * @param config - Payments configuration
-   * @throws Error if appId or appSecret is missing
+   * @throws VlibeValidationError if appId or appSecret is missing
    *
    * @remarks
    * This class should only be used server-side. Never expose your
@@ -68,10 +61,14 @@ export class VlibeBasePayments {
    */
   constructor(config: PaymentsConfig) {
     if (!config.appId) {
-      throw new Error('VlibeBasePayments: appId is required');
+      throw new VlibeValidationError('VlibeBasePayments: appId is required', [
+        { field: 'appId', message: 'appId is required' },
+      ]);
     }
     if (!config.appSecret) {
-      throw new Error('VlibeBasePayments: appSecret is required');
+      throw new VlibeValidationError('VlibeBasePayments: appSecret is required', [
+        { field: 'appSecret', message: 'appSecret is required' },
+      ]);
     }
 
     // Warn if used on client-side
@@ -85,34 +82,40 @@ export class VlibeBasePayments {
     this.appId = config.appId;
     this.appSecret = config.appSecret;
     this.baseUrl = resolveBaseUrl(config.baseUrl);
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.transport = config.transport || new VlibeBaseTransport();
   }
 
   /**
    * Make an authenticated API request
+   *
+   * Transient failures are retried according to the configured retry policy.
+   *
+   * @throws VlibeNetworkError if the API could not be reached
+   * @throws VlibeApiError (or a subclass) if the API returned an error status
    */
   private async apiRequest<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    requestOptions: RequestOptions = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}/api/base/payments${endpoint}`;
-
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        'X-App-Id': this.appId,
-        'X-App-Secret': this.appSecret,
-        ...options.headers,
+    return this.transport.request<T>(
+      `${this.baseUrl}/api/base/payments${endpoint}`,
+      {
+        ...options,
+        headers: {
+          'X-App-Id': this.appId,
+          'X-App-Secret': this.appSecret,
+          ...options.headers,
+        },
       },
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      throw new Error(data.error || data.message || 'Payment API request failed');
-    }
-
-    return data;
+      {
+        endpoint,
+        retry: this.retryPolicy,
+        idempotencyKey: requestOptions.idempotencyKey,
+        fallbackMessage: 'Payment API request failed',
+      }
+    );
   }
 
   // ============================================================================
@@ -158,6 +161,7 @@ export class VlibeBasePayments {
    * Create a checkout session for one-time payments
    *
    * @param options - Checkout options
+   * @param requestOptions - Optional idempotency key; one is generated if omitted
    * @returns The checkout session with URL to redirect user
    *
    * @remarks
@@ -165,7 +169,10 @@ export class VlibeBasePayments {
    * - Free plan: 2% of transaction
    * - Premium plan: 0.5% of transaction
    */
-  async createCheckout(options: CheckoutOptions): Promise<CheckoutSession> {
+  async createCheckout(
+    options: CheckoutOptions,
+    requestOptions?: RequestOptions
+  ): Promise<CheckoutSession> {
     const response = await this.apiRequest<{ success: boolean; data: CheckoutSession }>(
       '/checkout',
       {
@@ -180,7 +187,8 @@ export class VlibeBasePayments {
           successUrl: options.successUrl,
           cancelUrl: options.cancelUrl,
         }),
-      }
+      },
+      requestOptions
     );
     return response.data;
   }
@@ -189,7 +197,7 @@ export class VlibeBasePayments {
    * Get checkout session by ID
    *
    * @param sessionId - The checkout session ID
-   * @returns The checkout session details
+   * @returns The checkout session details, or null if it does not exist
    */
   async getCheckoutSession(sessionId: string): Promise<CheckoutSession | null> {
     try {
@@ -197,8 +205,9 @@ export class VlibeBasePayments {
         `/checkout/${sessionId}`
       );
       return response.data;
-    } catch {
-      return null;
+    } catch (error) {
+      if (error instanceof VlibeNotFoundError) return null;
+      throw error;
     }
   }
 
@@ -235,7 +244,7 @@ export class VlibeBasePayments {
    * Get a single transaction
    *
    * @param transactionId - The transaction ID
-   * @returns The transaction details
+   * @returns The transaction details, or null if it does not exist
    */
   async getTransaction(transactionId: string): Promise<Transaction | null> {
     try {
@@ -243,8 +252,9 @@ export class VlibeBasePayments {
         `/transactions/${transactionId}`
       );
       return response.data;
-    } catch {
-      return null;
+    } catch (error) {
+      if (error instanceof VlibeNotFoundError) return null;
+      throw error;
     }
   }
 
@@ -291,18 +301,23 @@ export class VlibeBasePayments {
    * Create a refund
    *
    * @param options - Refund options
+   * @param requestOptions - Optional idempotency key; one is generated if omitted
    * @returns The updated transaction
    *
    * @remarks
    * Note: Transaction fees are not refunded when you issue a refund.
    */
-  async createRefund(options: RefundOptions): Promise<Transaction> {
+  async createRefund(
+    options: RefundOptions,
+    requestOptions?: RequestOptions
+  ): Promise<Transaction> {
     const response = await this.apiRequest<{ success: boolean; data: Transaction }>(
       '/refunds',
       {
         method: 'POST',
         body: JSON.stringify(options),
-      }
+      },
+      requestOptions
     );
     return response.data;
   }
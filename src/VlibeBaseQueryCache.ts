@@ -0,0 +1,238 @@
+/**
+ * VlibeBaseQueryCache - Client-side cache for database reads
+ *
+ * Query results are cached per collection and query, and every record they
+ * contain is indexed by collection and ID so `get()` can be answered from
+ * earlier queries. Identical concurrent reads share a single request.
+ *
+ * Fresh entries (younger than `ttlMs`) are returned directly. Expired
+ * entries are still returned for `staleWhileRevalidateMs` while a
+ * background request refreshes them. Writes and realtime events drop the
+ * queries that read from the affected collection, including through
+ * `include`, so the next read goes to the server.
+ *
+ * Values are copied when stored and when returned, so callers can change
+ * what they get back without affecting the cache or each other.
+ */
+
+import type { BaseRecord, CacheConfig } from './types';
+
+const DEFAULT_CACHE_CONFIG: Required<CacheConfig> = {
+  ttlMs: 5000,
+  staleWhileRevalidateMs: 60000,
+  maxEntries: 1000,
+};
+
+interface CacheEntry {
+  /** Collections the value was read from */
+  collections: string[];
+  value: unknown;
+  fetchedAt: number;
+}
+
+interface InFlightRequest {
+  collections: string[];
+  promise: Promise<unknown>;
+}
+
+/**
+ * Records written or removed by a single change
+ */
+export interface CacheChange {
+  /** Records inserted or updated, as returned by the server */
+  upserted?: BaseRecord[];
+  /** IDs of deleted records */
+  deletedIds?: string[];
+}
+
+export class VlibeBaseQueryCache {
+  private config: Required<CacheConfig>;
+  private entries: Map<string, CacheEntry> = new Map();
+  private records: Map<string, CacheEntry> = new Map();
+  private inFlight: Map<string, InFlightRequest> = new Map();
+  private generations: Map<string, number> = new Map();
+  private totalGeneration = 0;
+
+  constructor(config: CacheConfig = {}) {
+    this.config = { ...DEFAULT_CACHE_CONFIG, ...config };
+  }
+
+  /**
+   * An empty cache with the same settings
+   */
+  fork(): VlibeBaseQueryCache {
+    return new VlibeBaseQueryCache(this.config);
+  }
+
+  /**
+   * Read through the cache
+   *
+   * @param key - Cache key, unique per collection and query
+   * @param collections - Collections the query reads from, the queried one
+   * first; `'*'` makes the value depend on every collection
+   * @param load - Fetches the value from the server
+   * @param extractRecords - Returns the queried collection's full records
+   * contained in the value, to index them
+   */
+  async read<T>(
+    key: string,
+    collections: string[],
+    load: () => Promise<T>,
+    extractRecords?: (value: T) => BaseRecord[]
+  ): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      const age = Date.now() - entry.fetchedAt;
+      if (age < this.config.ttlMs) {
+        return structuredClone(entry.value) as T;
+      }
+      if (age < this.config.ttlMs + this.config.staleWhileRevalidateMs) {
+        this.fetch(key, collections, load, extractRecords).catch(() => {
+          // Keep serving the stale value; the next read retries
+        });
+        return structuredClone(entry.value) as T;
+      }
+    }
+
+    return this.fetch(key, collections, load, extractRecords);
+  }
+
+  /**
+   * Get a fresh record indexed from an earlier read
+   */
+  getRecord<T extends BaseRecord>(collection: string, id: string): T | undefined {
+    const entry = this.records.get(recordKey(collection, id));
+    if (!entry || Date.now() - entry.fetchedAt >= this.config.ttlMs) return undefined;
+    return structuredClone(entry.value) as T;
+  }
+
+  /**
+   * Apply a known change: update indexed records and drop the collection's queries
+   */
+  applyChange(collection: string, change: CacheChange = {}): void {
+    this.dropQueries(collection);
+
+    const now = Date.now();
+    for (const record of change.upserted || []) {
+      this.store(this.records, recordKey(collection, record.id), {
+        collections: [collection],
+        value: structuredClone(record),
+        fetchedAt: now,
+      });
+    }
+    for (const id of change.deletedIds || []) {
+      this.records.delete(recordKey(collection, id));
+    }
+  }
+
+  /**
+   * Drop everything cached for a collection, or for all collections
+   */
+  invalidate(collection?: string): void {
+    if (collection === undefined) {
+      for (const name of new Set([...this.generations.keys(), ...this.collections()])) {
+        this.bumpGeneration(name);
+      }
+      this.entries.clear();
+      this.records.clear();
+      this.inFlight.clear();
+      return;
+    }
+
+    this.dropQueries(collection);
+    for (const [key, entry] of this.records) {
+      if (entry.collections.includes(collection)) this.records.delete(key);
+    }
+  }
+
+  /**
+   * Fetch a value, sharing the request with identical reads already in flight
+   */
+  private fetch<T>(
+    key: string,
+    collections: string[],
+    load: () => Promise<T>,
+    extractRecords?: (value: T) => BaseRecord[]
+  ): Promise<T> {
+    // Callers joining a request get their own copy of its value
+    const pending = this.inFlight.get(key);
+    if (pending) return pending.promise.then((value) => structuredClone(value) as T);
+
+    const generation = this.generationOf(collections);
+    const promise = load().then((value) => {
+      // A write during the request may have made the response outdated
+      if (this.generationOf(collections) === generation) {
+        const fetchedAt = Date.now();
+        const stored = structuredClone(value);
+        this.store(this.entries, key, { collections, value: stored, fetchedAt });
+        for (const record of extractRecords?.(stored) || []) {
+          this.store(this.records, recordKey(collections[0], record.id), {
+            collections: [collections[0]],
+            value: record,
+            fetchedAt,
+          });
+        }
+      }
+      return value;
+    });
+
+    const settle = () => {
+      if (this.inFlight.get(key)?.promise === promise) {
+        this.inFlight.delete(key);
+      }
+    };
+    promise.then(settle, settle);
+
+    this.inFlight.set(key, { collections, promise });
+    return promise;
+  }
+
+  /**
+   * Insert an entry, evicting the least recently stored one when full
+   */
+  private store(map: Map<string, CacheEntry>, key: string, entry: CacheEntry): void {
+    map.delete(key);
+    map.set(key, entry);
+    if (map.size > this.config.maxEntries) {
+      const oldest = map.keys().next().value;
+      if (oldest !== undefined) map.delete(oldest);
+    }
+  }
+
+  private dropQueries(collection: string): void {
+    this.bumpGeneration(collection);
+    for (const [key, entry] of this.entries) {
+      if (dependsOn(entry.collections, collection)) this.entries.delete(key);
+    }
+    for (const [key, request] of this.inFlight) {
+      if (dependsOn(request.collections, collection)) this.inFlight.delete(key);
+    }
+  }
+
+  private bumpGeneration(collection: string): void {
+    this.generations.set(collection, (this.generations.get(collection) || 0) + 1);
+    this.totalGeneration++;
+  }
+
+  /**
+   * Sum of the collections' generations; changes whenever any of them is written
+   */
+  private generationOf(collections: string[]): number {
+    return collections.reduce(
+      (sum, name) => sum + (name === '*' ? this.totalGeneration : this.generations.get(name) || 0),
+      0
+    );
+  }
+
+  private collections(): string[] {
+    return [...this.entries.values(), ...this.inFlight.values()].flatMap((e) => e.collections);
+  }
+}
+
+function dependsOn(collections: string[], collection: string): boolean {
+  return collections.includes(collection) || collections.includes('*');
+}
+
+function recordKey(collection: string, id: string): string {
+  return `${collection}/${id}`;
+}
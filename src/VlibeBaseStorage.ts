@@ -0,0 +1,582 @@
+/**
+ * VlibeBaseStorage - File storage for Vlibe Base Apps
+ *
+ * Stores files in buckets that are either public or private. Large files
+ * are uploaded in chunks and can be resumed after a failure. Every
+ * uploaded file is recorded as a row in the `media` collection.
+ *
+ * @example
+ * ```typescript
+ * import { VlibeBaseStorage } from '@withvlibe/base-sdk';
+ *
+ * const storage = new VlibeBaseStorage({
+ *   projectId: process.env.VLIBE_PROJECT_ID!,
+ *   databaseToken: process.env.VLIBE_DB_TOKEN!,
+ * });
+ *
+ * await storage.createBucket('avatars', { public: true });
+ * const media = await storage.upload('avatars', `${user.id}.png`, file);
+ * // media.url can be used in an <img> tag
+ * ```
+ */
+
+import type {
+  BucketInfo,
+  BucketOptions,
+  CursorPage,
+  ListFilesOptions,
+  Media,
+  RetryPolicy,
+  SignedUpload,
+  SignedUploadOptions,
+  SignedUrl,
+  SignedUrlOptions,
+  StorageConfig,
+  UploadOptions,
+  UploadProgress,
+  UploadSource,
+  UploadToUrlOptions,
+} from './types';
+import { VlibeError, VlibeValidationError } from './errors';
+import { resolveRetryPolicy } from './retry';
+import { VlibeBaseTransport, resolveBaseUrl } from './VlibeBaseTransport';
+import { VlibeBaseLocalBackend } from './VlibeBaseLocalBackend';
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+interface UploadState {
+  uploadId: string;
+  /** Bytes stored so far */
+  received: number;
+}
+
+/**
+ * Send a request for one upload; `suffix` is appended to the upload's URL
+ */
+type UploadRequest = <T>(suffix: string, init?: RequestInit) => Promise<T>;
+
+function isBlob(source: UploadSource): source is Blob {
+  return typeof Blob !== 'undefined' && source instanceof Blob;
+}
+
+function sourceSize(source: UploadSource): number | null {
+  if (isBlob(source)) return source.size;
+  if (source instanceof ArrayBuffer || ArrayBuffer.isView(source)) return source.byteLength;
+  return null;
+}
+
+function concat(pieces: Uint8Array[], length: number): Uint8Array {
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const piece of pieces) {
+    result.set(piece, offset);
+    offset += piece.length;
+  }
+  return result;
+}
+
+async function* streamPieces(
+  source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>
+): AsyncGenerator<Uint8Array, void, undefined> {
+  if (!('getReader' in source)) {
+    yield* source;
+    return;
+  }
+  const reader = source.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read a source in chunks of `chunkSize` bytes, starting at `start`
+ *
+ * Blobs are sliced so only one chunk is held in memory. Streams cannot
+ * seek, so the bytes before `start` are read and dropped.
+ */
+async function* readChunks(
+  source: UploadSource,
+  chunkSize: number,
+  start: number
+): AsyncGenerator<Uint8Array, void, undefined> {
+  if (isBlob(source)) {
+    for (let offset = start; offset < source.size; offset += chunkSize) {
+      yield new Uint8Array(await source.slice(offset, offset + chunkSize).arrayBuffer());
+    }
+    return;
+  }
+
+  if (source instanceof ArrayBuffer || ArrayBuffer.isView(source)) {
+    const bytes =
+      source instanceof ArrayBuffer
+        ? new Uint8Array(source)
+        : new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+    for (let offset = start; offset < bytes.length; offset += chunkSize) {
+      yield bytes.subarray(offset, offset + chunkSize);
+    }
+    return;
+  }
+
+  let skip = start;
+  let pending: Uint8Array[] = [];
+  let pendingLength = 0;
+  for await (let piece of streamPieces(source)) {
+    if (skip > 0) {
+      if (piece.length <= skip) {
+        skip -= piece.length;
+        continue;
+      }
+      piece = piece.subarray(skip);
+      skip = 0;
+    }
+    pending.push(piece);
+    pendingLength += piece.length;
+    while (pendingLength >= chunkSize) {
+      const bytes = concat(pending, pendingLength);
+      yield bytes.subarray(0, chunkSize);
+      pending = [bytes.subarray(chunkSize)];
+      pendingLength -= chunkSize;
+    }
+  }
+  if (pendingLength > 0) yield concat(pending, pendingLength);
+}
+
+function assertNotAborted(signal: AbortSignal | undefined, uploadId: string): void {
+  if (signal?.aborted) {
+    throw new VlibeError(`Upload ${uploadId} was aborted`, { cause: signal.reason });
+  }
+}
+
+function resolveChunkSize(chunkSize = DEFAULT_CHUNK_SIZE): number {
+  if (!(chunkSize > 0)) {
+    throw new VlibeValidationError('chunkSize must be a positive number', [
+      { field: 'chunkSize', message: 'expected a positive number' },
+    ]);
+  }
+  return chunkSize;
+}
+
+/**
+ * Send the chunks the server does not have yet, then complete the upload
+ */
+async function sendChunks(
+  request: UploadRequest,
+  state: UploadState,
+  data: UploadSource,
+  chunkSize: number,
+  options: {
+    onProgress?: (progress: UploadProgress) => void;
+    signal?: AbortSignal;
+  }
+): Promise<Media> {
+  const { uploadId } = state;
+  const total = sourceSize(data);
+  const report = () => options.onProgress?.({ uploadId, loaded: state.received, total });
+  report();
+
+  for await (const chunk of readChunks(data, chunkSize, state.received)) {
+    assertNotAborted(options.signal, uploadId);
+    const response = await request<{ success: boolean; data: UploadState }>(
+      `?offset=${state.received}`,
+      {
+        method: 'PUT',
+        body: chunk.slice(),
+        headers: { 'Content-Type': 'application/octet-stream' },
+        signal: options.signal,
+      }
+    );
+    state.received = response.data.received;
+    report();
+  }
+
+  assertNotAborted(options.signal, uploadId);
+  const response = await request<{ success: boolean; data: Media }>('/complete', { method: 'POST' });
+  return response.data;
+}
+
+export class VlibeBaseStorage {
+  private projectId: string;
+  private databaseToken: string;
+  private baseUrl: string;
+  private retryPolicy: Required<RetryPolicy>;
+  private transport: VlibeBaseTransport;
+
+  /**
+   * Create a new VlibeBaseStorage instance
+   *
+   * @param config - Storage configuration
+   * @throws VlibeValidationError if projectId or databaseToken is missing
+   */
+  constructor(config: StorageConfig) {
+    if (!config.projectId) {
+      throw new VlibeValidationError('VlibeBaseStorage: projectId is required', [
+        { field: 'projectId', message: 'projectId is required' },
+      ]);
+    }
+    if (!config.databaseToken) {
+      throw new VlibeValidationError('VlibeBaseStorage: databaseToken is required', [
+        { field: 'databaseToken', message: 'databaseToken is required' },
+      ]);
+    }
+
+    this.projectId = config.projectId;
+    this.databaseToken = config.databaseToken;
+    this.baseUrl = resolveBaseUrl(config.baseUrl);
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.transport = config.transport || new VlibeBaseTransport();
+  }
+
+  /**
+   * Create a storage client backed by an in-memory local backend
+   *
+   * Pass the `backend` of a `VlibeBaseDatabase.inMemory()` client to see
+   * the Media rows of uploaded files from that client.
+   */
+  static inMemory(
+    options: { projectId?: string; backend?: VlibeBaseLocalBackend } = {}
+  ): VlibeBaseStorage {
+    const backend = options.backend || new VlibeBaseLocalBackend();
+    return new VlibeBaseStorage({
+      projectId: options.projectId || 'local',
+      databaseToken: 'local',
+      baseUrl: 'http://localhost',
+      retry: false,
+      transport: new VlibeBaseTransport({ fetch: backend.fetch }),
+    });
+  }
+
+  /**
+   * Upload a file to a URL from `createUploadUrl()`, without a database token
+   *
+   * Meant for browsers: the server creates the URL for a path it chose,
+   * and the browser sends the file to it. Calling this again with the same
+   * URL continues an interrupted upload where it stopped.
+   *
+   * @returns The Media row of the stored file
+   * @throws VlibeValidationError if the chunk size is not positive
+   * @throws VlibeApiError if the URL is invalid or expired, or the file is not the declared size
+   *
+   * @example
+   * ```typescript
+   * const { url } = await fetch('/api/uploads', { method: 'POST' }).then((res) => res.json());
+   * const media = await VlibeBaseStorage.uploadToUrl(url, file, {
+   *   onProgress: ({ loaded, total }) => setPercent(total ? (loaded / total) * 100 : 0),
+   * });
+   * ```
+   */
+  static async uploadToUrl(
+    url: string,
+    data: UploadSource,
+    options: UploadToUrlOptions = {}
+  ): Promise<Media> {
+    const chunkSize = resolveChunkSize(options.chunkSize);
+    const transport = options.transport || new VlibeBaseTransport();
+    const retry = resolveRetryPolicy(options.retry);
+    const request: UploadRequest = (suffix, init = {}) =>
+      transport.request(`${url}${suffix}`, init, {
+        endpoint: `/storage/signed-uploads${suffix}`,
+        retry,
+        fallbackMessage: 'Storage API request failed',
+      });
+
+    const state = await request<{ success: boolean; data: UploadState }>('');
+    return sendChunks(request, state.data, data, chunkSize, options);
+  }
+
+  /**
+   * Make an authenticated API request
+   *
+   * Transient failures are retried according to the configured retry policy.
+   *
+   * @throws VlibeNetworkError if the API could not be reached
+   * @throws VlibeApiError (or a subclass) if the API returned an error status
+   */
+  private async apiRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    return this.transport.request<T>(
+      `${this.baseUrl}/api/database/${this.projectId}/storage${endpoint}`,
+      {
+        ...options,
+        headers: {
+          Authorization: `Bearer ${this.databaseToken}`,
+          ...options.headers,
+        },
+      },
+      {
+        endpoint,
+        retry: this.retryPolicy,
+        fallbackMessage: 'Storage API request failed',
+      }
+    );
+  }
+
+  // ============================================================================
+  // Buckets
+  // ============================================================================
+
+  /**
+   * Create a bucket
+   *
+   * @throws VlibeApiError if a bucket with this name exists
+   */
+  async createBucket(name: string, options: BucketOptions = {}): Promise<BucketInfo> {
+    const response = await this.apiRequest<{ success: boolean; data: BucketInfo }>('/buckets', {
+      method: 'POST',
+      body: JSON.stringify({ name, public: options.public ?? false }),
+    });
+    return response.data;
+  }
+
+  /**
+   * Change a bucket's settings, e.g. make its files public
+   *
+   * Files keep their URLs; they work for anyone while the bucket is public.
+   */
+  async updateBucket(name: string, options: BucketOptions): Promise<BucketInfo> {
+    const response = await this.apiRequest<{ success: boolean; data: BucketInfo }>(
+      `/buckets/${encodeURIComponent(name)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(options),
+      }
+    );
+    return response.data;
+  }
+
+  /**
+   * List all buckets
+   */
+  async listBuckets(): Promise<BucketInfo[]> {
+    const response = await this.apiRequest<{ success: boolean; data: BucketInfo[] }>('/buckets');
+    return response.data;
+  }
+
+  /**
+   * Delete an empty bucket
+   *
+   * @throws VlibeApiError if the bucket still has files
+   */
+  async deleteBucket(name: string): Promise<boolean> {
+    await this.apiRequest(`/buckets/${encodeURIComponent(name)}`, { method: 'DELETE' });
+    return true;
+  }
+
+  // ============================================================================
+  // Files
+  // ============================================================================
+
+  /**
+   * Upload a file and record it as a Media row
+   *
+   * The file is sent in chunks of `chunkSize` bytes and `onProgress` is
+   * called after each one. If a chunk fails, upload again with the last
+   * reported `uploadId` to continue where it stopped; for a stream, pass a
+   * new stream of the same file.
+   *
+   * @param path - Path within the bucket, e.g. `products/mug.jpg`
+   * @returns The Media row of the stored file
+   * @throws VlibeValidationError if the path is empty or the chunk size is not positive
+   * @throws VlibeApiError if the bucket does not exist, or the path is taken and `upsert` is not set
+   *
+   * @example
+   * ```typescript
+   * const media = await storage.upload('videos', 'intro.mp4', file, {
+   *   onProgress: ({ uploadId, loaded, total }) => {
+   *     lastUploadId = uploadId;
+   *     setPercent(total ? (loaded / total) * 100 : 0);
+   *   },
+   * });
+   *
+   * // After a network failure
+   * await storage.upload('videos', 'intro.mp4', file, { uploadId: lastUploadId });
+   * ```
+   */
+  async upload(
+    bucket: string,
+    path: string,
+    data: UploadSource,
+    options: UploadOptions = {}
+  ): Promise<Media> {
+    if (!path) {
+      throw new VlibeValidationError('upload requires a path', [
+        { field: 'path', message: 'path is required' },
+      ]);
+    }
+    const chunkSize = resolveChunkSize(options.chunkSize);
+
+    const state = options.uploadId
+      ? await this.getUpload(options.uploadId)
+      : await this.startUpload(bucket, path, data, sourceSize(data), options);
+    return sendChunks(
+      (suffix, init) => this.apiRequest(`/uploads/${state.uploadId}${suffix}`, init),
+      state,
+      data,
+      chunkSize,
+      options
+    );
+  }
+
+  /**
+   * Create a URL that uploads one file to `path`, for a browser to use
+   * with `VlibeBaseStorage.uploadToUrl()`
+   *
+   * Call this on the server after checking the user may upload there; the
+   * URL works for anyone until it expires or the upload completes.
+   *
+   * @throws VlibeValidationError if the path is empty
+   * @throws VlibeApiError if the bucket does not exist, or the path is taken and `upsert` is not set
+   *
+   * @example
+   * ```typescript
+   * // app/api/avatar-upload/route.ts
+   * export async function POST(request: Request) {
+   *   const user = await auth.verifySession(sessionToken);
+   *   const { contentType, size } = await request.json();
+   *   const signed = await storage.createUploadUrl('avatars', `${user.id}.png`, {
+   *     contentType,
+   *     size,
+   *     upsert: true,
+   *   });
+   *   return Response.json(signed);
+   * }
+   * ```
+   */
+  async createUploadUrl(
+    bucket: string,
+    path: string,
+    options: SignedUploadOptions = {}
+  ): Promise<SignedUpload> {
+    if (!path) {
+      throw new VlibeValidationError('createUploadUrl requires a path', [
+        { field: 'path', message: 'path is required' },
+      ]);
+    }
+    const response = await this.apiRequest<{ success: boolean; data: SignedUpload }>(
+      `/buckets/${encodeURIComponent(bucket)}/upload-urls`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          path,
+          size: options.size ?? null,
+          contentType: options.contentType || 'application/octet-stream',
+          alt: options.alt,
+          upsert: options.upsert ?? false,
+          expiresIn: options.expiresIn ?? 3600,
+        }),
+      }
+    );
+    return response.data;
+  }
+
+  /**
+   * List the files in a bucket, ordered by path
+   *
+   * @example
+   * ```typescript
+   * let page = await storage.list('products', { prefix: 'mugs/', limit: 100 });
+   * while (page.hasMore) {
+   *   page = await storage.list('products', { prefix: 'mugs/', cursor: page.nextCursor });
+   * }
+   * ```
+   */
+  async list(bucket: string, options: ListFilesOptions = {}): Promise<CursorPage<Media>> {
+    const params = new URLSearchParams();
+    if (options.prefix) params.set('prefix', options.prefix);
+    if (options.limit) params.set('limit', String(options.limit));
+    if (options.cursor) params.set('cursor', options.cursor);
+    const queryString = params.toString();
+
+    const response = await this.apiRequest<{
+      success: boolean;
+      data: Media[];
+      nextCursor: string | null;
+      hasMore: boolean;
+    }>(`/buckets/${encodeURIComponent(bucket)}/files${queryString ? `?${queryString}` : ''}`);
+    return {
+      data: response.data,
+      nextCursor: response.nextCursor ?? null,
+      hasMore: response.hasMore && !!response.nextCursor,
+    };
+  }
+
+  /**
+   * Get a URL that reads a file until it expires, also for private buckets
+   *
+   * @throws VlibeNotFoundError if the file does not exist
+   */
+  async getSignedUrl(
+    bucket: string,
+    path: string,
+    options: SignedUrlOptions = {}
+  ): Promise<SignedUrl> {
+    const response = await this.apiRequest<{ success: boolean; data: SignedUrl }>(
+      `/buckets/${encodeURIComponent(bucket)}/signed-urls`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ path, expiresIn: options.expiresIn ?? 3600 }),
+      }
+    );
+    return response.data;
+  }
+
+  /**
+   * Delete a file and its Media row
+   *
+   * @throws VlibeNotFoundError if the file does not exist
+   */
+  async delete(bucket: string, path: string): Promise<boolean> {
+    const params = new URLSearchParams({ path });
+    await this.apiRequest(`/buckets/${encodeURIComponent(bucket)}/files?${params.toString()}`, {
+      method: 'DELETE',
+    });
+    return true;
+  }
+
+  private async startUpload(
+    bucket: string,
+    path: string,
+    data: UploadSource,
+    size: number | null,
+    options: UploadOptions
+  ): Promise<UploadState> {
+    const contentType =
+      options.contentType || (isBlob(data) && data.type) || 'application/octet-stream';
+    const response = await this.apiRequest<{ success: boolean; data: UploadState }>(
+      `/buckets/${encodeURIComponent(bucket)}/uploads`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          path,
+          size,
+          contentType,
+          alt: options.alt,
+          upsert: options.upsert ?? false,
+        }),
+      }
+    );
+    return response.data;
+  }
+
+  private async getUpload(uploadId: string): Promise<UploadState> {
+    const response = await this.apiRequest<{ success: boolean; data: UploadState }>(
+      `/uploads/${uploadId}`
+    );
+    return response.data;
+  }
+
+  // ============================================================================
+  // Utilities
+  // ============================================================================
+
+  /**
+   * Get the project ID
+   */
+  getProjectId(): string {
+    return this.projectId;
+  }
+}
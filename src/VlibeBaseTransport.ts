@@ -0,0 +1,232 @@
+/**
+ * VlibeBaseTransport - Shared HTTP layer for the Vlibe Base clients
+ *
+ * Owns the `fetch` implementation, default headers, retries and a
+ * middleware chain. Create one and pass it to every client to add tracing
+ * headers, logging, proxies or test doubles in a single place.
+ *
+ * @example
+ * ```typescript
+ * import { VlibeBaseTransport, VlibeBaseDatabase, VlibeBaseAuth } from '@withvlibe/base-sdk';
+ *
+ * const transport = new VlibeBaseTransport({
+ *   headers: { 'X-Client': 'my-app' },
+ *   middleware: [
+ *     {
+ *       onRequest: (req) => {
+ *         req.init.headers['traceparent'] = createTraceparent();
+ *       },
+ *       onResponse: (res, req) => {
+ *         console.log(req.init.method, req.endpoint, res.status);
+ *       },
+ *       onError: (err, req) => {
+ *         console.error(req.endpoint, err);
+ *       },
+ *     },
+ *   ],
+ * });
+ *
+ * const db = new VlibeBaseDatabase({ projectId, databaseToken, transport });
+ * const auth = new VlibeBaseAuth({ appId, appSecret, transport });
+ * ```
+ */
+
+import type { RetryPolicy } from './types';
+import { VlibeError, VlibeNetworkError, createApiError, readJson } from './errors';
+import { resolveRetryPolicy, withRetry, generateIdempotencyKey } from './retry';
+
+const DEFAULT_BASE_URL = 'https://vlibe.app';
+
+/**
+ * Get the base URL from environment or config
+ */
+export function resolveBaseUrl(configBaseUrl?: string): string {
+  if (configBaseUrl) return configBaseUrl;
+  if (typeof process !== 'undefined' && process.env) {
+    if (process.env.VLIBE_BASE_URL) return process.env.VLIBE_BASE_URL;
+    if (process.env.NEXT_PUBLIC_VLIBE_BASE_URL) return process.env.NEXT_PUBLIC_VLIBE_BASE_URL;
+  }
+  return DEFAULT_BASE_URL;
+}
+
+/**
+ * `fetch`-compatible function
+ */
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * A request as seen by middleware
+ */
+export interface TransportRequest {
+  /** Full request URL */
+  url: string;
+  /** API endpoint, relative to the client's API root */
+  endpoint: string;
+  /** Request options; headers are always a plain object */
+  init: RequestInit & { headers: Record<string, string> };
+  /** Attempt number, starting at 1 */
+  attempt: number;
+}
+
+/**
+ * Hooks called around every request
+ *
+ * `onRequest` may mutate or replace the request, `onResponse` may replace
+ * the response, and `onError` observes failures before they are thrown.
+ */
+export interface TransportMiddleware {
+  onRequest?: (
+    request: TransportRequest
+  ) => TransportRequest | void | Promise<TransportRequest | void>;
+  onResponse?: (
+    response: Response,
+    request: TransportRequest
+  ) => Response | void | Promise<Response | void>;
+  onError?: (error: VlibeError, request: TransportRequest) => void | Promise<void>;
+}
+
+/**
+ * Transport configuration
+ */
+export interface TransportConfig {
+  /** Custom fetch implementation (default: global fetch) */
+  fetch?: FetchFunction;
+  /** Headers added to every request */
+  headers?: Record<string, string>;
+  /** Middleware, called in order for requests and in reverse for responses */
+  middleware?: TransportMiddleware[];
+}
+
+/**
+ * Options for a single transport request
+ */
+export interface TransportRequestOptions {
+  /** API endpoint, used in errors and passed to middleware */
+  endpoint: string;
+  /** Retry policy; a single attempt when omitted */
+  retry?: Required<RetryPolicy>;
+  /** Idempotency key for mutating requests; generated when omitted */
+  idempotencyKey?: string;
+  /** Message used when the API does not return one */
+  fallbackMessage?: string;
+}
+
+function normalizeHeaders(headers?: HeadersInit): Record<string, string> {
+  if (!headers) return {};
+  if (headers instanceof Headers) {
+    const result: Record<string, string> = {};
+    headers.forEach((value, key) => {
+      result[key] = value;
+    });
+    return result;
+  }
+  if (Array.isArray(headers)) return Object.fromEntries(headers);
+  return { ...headers };
+}
+
+export class VlibeBaseTransport {
+  private fetchImpl: FetchFunction | undefined;
+  private headers: Record<string, string>;
+  private middleware: TransportMiddleware[];
+
+  /**
+   * Create a new transport
+   *
+   * @param config - Transport configuration
+   */
+  constructor(config: TransportConfig = {}) {
+    this.fetchImpl = config.fetch;
+    this.headers = config.headers || {};
+    this.middleware = [...(config.middleware || [])];
+  }
+
+  /**
+   * Add middleware after the configured ones
+   */
+  use(middleware: TransportMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Send a JSON request
+   *
+   * Mutating requests carry an `Idempotency-Key` header that stays the same
+   * across retries, so the server applies them at most once.
+   *
+   * @throws VlibeNetworkError if the API could not be reached
+   * @throws VlibeApiError (or a subclass) if the API returned an error status
+   */
+  async request<T>(
+    url: string,
+    init: RequestInit,
+    options: TransportRequestOptions
+  ): Promise<T> {
+    const method = (init.method || 'GET').toUpperCase();
+    const fallbackMessage = options.fallbackMessage || 'API request failed';
+    const idempotencyHeaders: Record<string, string> =
+      method === 'GET'
+        ? {}
+        : { 'Idempotency-Key': options.idempotencyKey || generateIdempotencyKey() };
+
+    let attempt = 0;
+
+    return withRetry(async () => {
+      attempt++;
+      let request: TransportRequest = {
+        url,
+        endpoint: options.endpoint,
+        init: {
+          ...init,
+          method,
+          headers: {
+            'Content-Type': 'application/json',
+            ...this.headers,
+            ...idempotencyHeaders,
+            ...normalizeHeaders(init.headers),
+          },
+        },
+        attempt,
+      };
+
+      try {
+        for (const middleware of this.middleware) {
+          if (middleware.onRequest) {
+            request = (await middleware.onRequest(request)) || request;
+          }
+        }
+
+        let response: Response;
+        try {
+          const fetchImpl = this.fetchImpl || fetch;
+          response = await fetchImpl(request.url, request.init);
+        } catch (error) {
+          throw new VlibeNetworkError(`${fallbackMessage}: network error`, options.endpoint, error);
+        }
+
+        for (const middleware of [...this.middleware].reverse()) {
+          if (middleware.onResponse) {
+            response = (await middleware.onResponse(response, request)) || response;
+          }
+        }
+
+        const data = await readJson(response);
+
+        if (!response.ok) {
+          throw createApiError(response, data, options.endpoint, fallbackMessage);
+        }
+
+        return data as T;
+      } catch (error) {
+        const vlibeError =
+          error instanceof VlibeError
+            ? error
+            : new VlibeError(error instanceof Error ? error.message : String(error), { cause: error });
+        for (const middleware of this.middleware) {
+          await middleware.onError?.(vlibeError, request);
+        }
+        throw vlibeError;
+      }
+    }, options.retry || resolveRetryPolicy(false));
+  }
+}
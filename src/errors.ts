@@ -0,0 +1,226 @@
+/**
+ * Error classes for @withvlibe/base-sdk
+ *
+ * Every failure raised by the SDK is a `VlibeError`, so callers can tell a
+ * missing record apart from an expired token or an unreachable server.
+ *
+ * @example
+ * ```typescript
+ * import { VlibeNotFoundError, VlibeAuthError } from '@withvlibe/base-sdk';
+ *
+ * try {
+ *   await db.update('todos', id, { completed: true });
+ * } catch (err) {
+ *   if (err instanceof VlibeNotFoundError) {
+ *     // The record was deleted
+ *   } else if (err instanceof VlibeAuthError) {
+ *     // The database token is invalid or expired
+ *   }
+ * }
+ * ```
+ */
+
+/**
+ * A single problem found while validating input
+ */
+export interface ValidationIssue {
+  /** Field (column) the issue relates to, if any */
+  field?: string;
+  /** Human readable description of the issue */
+  message: string;
+}
+
+/**
+ * Details attached to errors returned by the Vlibe API
+ */
+export interface ApiErrorDetails {
+  /** HTTP status code */
+  status: number;
+  /** Machine readable error code returned by the API, if any */
+  code?: string;
+  /** Request ID for support/debugging, if the API returned one */
+  requestId?: string;
+  /** API endpoint that was called */
+  endpoint: string;
+  /** Seconds to wait before retrying, from the `Retry-After` header */
+  retryAfter?: number;
+}
+
+/**
+ * Base class for all errors thrown by the SDK
+ */
+export class VlibeError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'VlibeError';
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * The Vlibe API responded with an error status
+ */
+export class VlibeApiError extends VlibeError {
+  readonly status: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly endpoint: string;
+  /** Seconds to wait before retrying, from the `Retry-After` header */
+  readonly retryAfter?: number;
+
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message);
+    this.name = 'VlibeApiError';
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.endpoint = details.endpoint;
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * The requested resource does not exist (HTTP 404)
+ */
+export class VlibeNotFoundError extends VlibeApiError {
+  constructor(message: string, details: Partial<ApiErrorDetails> & { endpoint: string }) {
+    super(message, { status: 404, ...details });
+    this.name = 'VlibeNotFoundError';
+  }
+}
+
+/**
+ * The credentials were rejected (HTTP 401/403)
+ */
+export class VlibeAuthError extends VlibeApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details);
+    this.name = 'VlibeAuthError';
+  }
+}
+
+/**
+ * Too many requests (HTTP 429)
+ */
+export class VlibeRateLimitError extends VlibeApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details);
+    this.name = 'VlibeRateLimitError';
+  }
+}
+
+/**
+ * The request never reached the API or no response was received
+ */
+export class VlibeNetworkError extends VlibeError {
+  readonly endpoint: string;
+
+  constructor(message: string, endpoint: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'VlibeNetworkError';
+    this.endpoint = endpoint;
+  }
+}
+
+/**
+ * Input was rejected, either client-side before sending or by the API
+ * (HTTP 400/422)
+ */
+export class VlibeValidationError extends VlibeError {
+  readonly issues: ValidationIssue[];
+  /** HTTP status when the API rejected the input */
+  readonly status?: number;
+  /** API endpoint when the API rejected the input */
+  readonly endpoint?: string;
+
+  constructor(
+    message: string,
+    issues: ValidationIssue[] = [],
+    details?: Partial<ApiErrorDetails>
+  ) {
+    super(message);
+    this.name = 'VlibeValidationError';
+    this.issues = issues;
+    this.status = details?.status;
+    this.endpoint = details?.endpoint;
+  }
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * Parse the `Retry-After` header (seconds or HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, (date - Date.now()) / 1000);
+  return undefined;
+}
+
+function stringField(body: Record<string, unknown> | null, key: string): string | undefined {
+  const value = body?.[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function isValidationIssue(value: unknown): value is ValidationIssue {
+  if (typeof value !== 'object' || value === null) return false;
+  const { field, message } = value as Record<string, unknown>;
+  return typeof message === 'string' && (field === undefined || typeof field === 'string');
+}
+
+/**
+ * Build the matching error subclass for a failed API response
+ */
+export function createApiError(
+  response: Response,
+  body: Record<string, unknown> | null,
+  endpoint: string,
+  fallbackMessage: string
+): VlibeError {
+  const message = stringField(body, 'error') || stringField(body, 'message') || fallbackMessage;
+  const issues = Array.isArray(body?.issues) ? body.issues.filter(isValidationIssue) : [];
+  const details: ApiErrorDetails = {
+    status: response.status,
+    code: stringField(body, 'code'),
+    requestId: response.headers.get('x-request-id') || stringField(body, 'requestId'),
+    endpoint,
+    retryAfter: parseRetryAfter(response.headers.get('retry-after')),
+  };
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new VlibeValidationError(message, issues, details);
+    case 401:
+    case 403:
+      return new VlibeAuthError(message, details);
+    case 404:
+      return new VlibeNotFoundError(message, details);
+    case 429:
+      return new VlibeRateLimitError(message, details);
+    default:
+      return new VlibeApiError(message, details);
+  }
+}
+
+/**
+ * Read a response body as JSON, tolerating empty or non-JSON bodies
+ */
+export async function readJson(response: Response): Promise<Record<string, unknown> | null> {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    const data: unknown = JSON.parse(text);
+    return typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Where clause helpers
+ *
+ * Where clauses are serialized as JSON and evaluated by the API. These
+ * helpers catch malformed clauses client-side so the request is never sent,
+ * and evaluate clauses locally where the API is not involved.
+ */
+
+import type { WhereClause } from './types';
+import { VlibeValidationError } from './errors';
+import type { ValidationIssue } from './errors';
+
+const FIELD_OPERATORS = new Set([
+  '$eq',
+  '$ne',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$in',
+  '$nin',
+  '$like',
+  '$ilike',
+  '$isNull',
+]);
+
+const LOGICAL_OPERATORS = new Set(['$and', '$or', '$not']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+function collectIssues(where: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!isPlainObject(where)) {
+    issues.push({ field: path || undefined, message: 'where clause must be an object' });
+    return;
+  }
+
+  for (const [key, value] of Object.entries(where)) {
+    const keyPath = path ? `${path}.${key}` : key;
+
+    if (key.startsWith('$')) {
+      if (!LOGICAL_OPERATORS.has(key)) {
+        issues.push({ field: keyPath, message: `Unknown operator ${key}` });
+      } else if (key === '$not') {
+        collectIssues(value, keyPath, issues);
+      } else if (!Array.isArray(value)) {
+        issues.push({ field: keyPath, message: `${key} expects an array of clauses` });
+      } else {
+        value.forEach((clause, i) => collectIssues(clause, `${keyPath}[${i}]`, issues));
+      }
+      continue;
+    }
+
+    // Plain values (including nested JSON objects without operators) are equality checks
+    if (!isPlainObject(value) || !Object.keys(value).some((k) => k.startsWith('$'))) {
+      continue;
+    }
+
+    for (const [op, operand] of Object.entries(value)) {
+      if (!FIELD_OPERATORS.has(op)) {
+        issues.push({ field: keyPath, message: `Unknown operator ${op}` });
+      } else if ((op === '$in' || op === '$nin') && !Array.isArray(operand)) {
+        issues.push({ field: keyPath, message: `${op} expects an array` });
+      } else if ((op === '$like' || op === '$ilike') && typeof operand !== 'string') {
+        issues.push({ field: keyPath, message: `${op} expects a string pattern` });
+      } else if (op === '$isNull' && typeof operand !== 'boolean') {
+        issues.push({ field: keyPath, message: '$isNull expects a boolean' });
+      }
+    }
+  }
+}
+
+/**
+ * Validate a where clause before it is sent to the API
+ *
+ * @throws VlibeValidationError if the clause uses unknown operators or
+ * operands of the wrong shape
+ */
+export function validateWhere<T>(where: WhereClause<T>): void {
+  const issues: ValidationIssue[] = [];
+  collectIssues(where, '', issues);
+  if (issues.length > 0) {
+    throw new VlibeValidationError('Invalid where clause', issues);
+  }
+}
+
+/**
+ * Read a column or dot-separated JSON path from a record
+ */
+export function getFieldValue(record: Record<string, unknown>, path: string): unknown {
+  if (path in record) return record[path];
+
+  let value: unknown = record;
+  for (const segment of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+function normalize(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  a = normalize(a);
+  b = normalize(b);
+  if (a === b) return true;
+  if (a === null || b === null || a === undefined || b === undefined) return a == b;
+  if (typeof a === 'object' || typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+function compare(a: unknown, b: unknown): number | null {
+  a = normalize(a);
+  b = normalize(b);
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return null;
+}
+
+function likeToRegExp(pattern: string, flags: string): RegExp {
+  const source = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/%/g, '.*')
+    .replace(/_/g, '.');
+  return new RegExp(`^${source}$`, flags);
+}
+
+function matchesOperators(value: unknown, operators: Record<string, unknown>): boolean {
+  for (const [op, operand] of Object.entries(operators)) {
+    let ok: boolean;
+    switch (op) {
+      case '$eq':
+        ok = isEqual(value, operand);
+        break;
+      case '$ne':
+        ok = !isEqual(value, operand);
+        break;
+      case '$gt':
+      case '$gte':
+      case '$lt':
+      case '$lte': {
+        const result = compare(value, operand);
+        ok =
+          result !== null &&
+          (op === '$gt' ? result > 0 : op === '$gte' ? result >= 0 : op === '$lt' ? result < 0 : result <= 0);
+        break;
+      }
+      case '$in':
+        ok = (operand as unknown[]).some((candidate) => isEqual(value, candidate));
+        break;
+      case '$nin':
+        ok = !(operand as unknown[]).some((candidate) => isEqual(value, candidate));
+        break;
+      case '$like':
+        ok = typeof value === 'string' && likeToRegExp(operand as string, '').test(value);
+        break;
+      case '$ilike':
+        ok = typeof value === 'string' && likeToRegExp(operand as string, 'i').test(value);
+        break;
+      case '$isNull':
+        ok = (value === null || value === undefined) === operand;
+        break;
+      default:
+        ok = false;
+    }
+    if (!ok) return false;
+  }
+  return true;
+}
+
+/**
+ * Evaluate a where clause against a record, with the same semantics as the API
+ *
+ * Used by the local backend and to filter realtime events client-side.
+ */
+export function matchesWhere<T>(record: Record<string, unknown>, where: WhereClause<T>): boolean {
+  for (const [key, condition] of Object.entries(where as Record<string, unknown>)) {
+    if (condition === undefined) continue;
+
+    if (key === '$and') {
+      if (!(condition as WhereClause<T>[]).every((clause) => matchesWhere(record, clause))) return false;
+    } else if (key === '$or') {
+      if (!(condition as WhereClause<T>[]).some((clause) => matchesWhere(record, clause))) return false;
+    } else if (key === '$not') {
+      if (matchesWhere(record, condition as WhereClause<T>)) return false;
+    } else {
+      const value = getFieldValue(record, key);
+      const isOperatorObject =
+        isPlainObject(condition) && Object.keys(condition).some((k) => k.startsWith('$'));
+      if (isOperatorObject) {
+        if (!matchesOperators(value, condition as Record<string, unknown>)) return false;
+      } else if (!isEqual(value, condition)) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Order two field values the way the API sorts them: null and undefined
+ * first, numbers numerically, anything else as strings
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a) < String(b) ? -1 : 1;
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { VlibeBaseDatabase } from '../VlibeBaseDatabase';
+import type { VlibeBaseChannel } from '../VlibeBaseChannel';
+import type { RealtimeStatus } from '../types';
+
+export interface UseBroadcastReturn<P = unknown> {
+  /** Most recent message received for the event */
+  lastMessage: P | null;
+  status: RealtimeStatus;
+  error: Error | null;
+  /** Send a message to the other clients on the channel */
+  send: (payload: P) => Promise<void>;
+}
+
+/**
+ * React hook for ephemeral messages on a realtime channel
+ *
+ * Messages are not stored in the database; clients that are not connected
+ * never receive them.
+ *
+ * @param db - VlibeBaseDatabase instance
+ * @param channelName - Channel name, e.g. `chat:${roomId}`
+ * @param event - Event name to send and receive
+ * @param onMessage - Called for every message received
+ * @returns The last message and a send function
+ *
+ * @example
+ * ```tsx
+ * function TypingIndicator({ roomId, user }: Props) {
+ *   const { lastMessage, send } = useBroadcast<{ name: string }>(db, `chat:${roomId}`, 'typing');
+ *
+ *   return (
+ *     <>
+ *       <input onKeyDown={() => send({ name: user.name })} />
+ *       {lastMessage && <span>{lastMessage.name} is typing…</span>}
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useBroadcast<P = unknown>(
+  db: VlibeBaseDatabase,
+  channelName: string,
+  event: string,
+  onMessage?: (payload: P) => void
+): UseBroadcastReturn<P> {
+  const [lastMessage, setLastMessage] = useState<P | null>(null);
+  const [status, setStatus] = useState<RealtimeStatus>('connecting');
+  const [error, setError] = useState<Error | null>(null);
+  const channelRef = useRef<VlibeBaseChannel | null>(null);
+  // Keep the latest callback without resubscribing on every render
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    const channel = db.channel(channelName);
+    channelRef.current = channel;
+    setStatus(channel.status);
+
+    const removeMessage = channel.on<P>(event, (payload) => {
+      setLastMessage(payload);
+      onMessageRef.current?.(payload);
+    });
+    const removeStatus = channel.onStatusChange((nextStatus, statusError) => {
+      setStatus(nextStatus);
+      if (statusError) setError(statusError);
+    });
+
+    return () => {
+      removeMessage();
+      removeStatus();
+      channelRef.current = null;
+      channel.close();
+    };
+  }, [db, channelName, event]);
+
+  const send = useCallback(
+    async (payload: P) => {
+      if (!channelRef.current) return;
+      try {
+        await channelRef.current.send(event, payload);
+      } catch (err) {
+        setError(err instanceof Error ? err : new Error('Failed to send message'));
+      }
+    },
+    [event]
+  );
+
+  return {
+    lastMessage,
+    status,
+    error,
+    send,
+  };
+}
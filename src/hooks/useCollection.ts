@@ -7,7 +7,9 @@ import type {
   UseCollectionOptions,
   UseCollectionReturn,
   RealtimePayload,
+  RealtimeStatus,
 } from '../types';
+import { matchesWhere } from '../filters';
 
 /**
  * React hook for working with a database collection
@@ -44,19 +46,21 @@ import type {
 export function useCollection<T extends BaseRecord = BaseRecord>(
   db: VlibeBaseDatabase,
   collection: string,
-  options: UseCollectionOptions = {}
+  options: UseCollectionOptions<T> = {}
 ): UseCollectionReturn<T> {
   const [data, setData] = useState<T[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<RealtimeStatus | null>(null);
 
   const { realtime = false, ...queryOptions } = options;
 
-  const refresh = useCallback(async () => {
+  // Mounting reads through the shared cache; explicit refreshes go to the server
+  const load = useCallback(async (useCache: boolean) => {
     setLoading(true);
     setError(null);
     try {
-      const result = await db.query<T>(collection, queryOptions);
+      const result = await db.query<T>(collection, { ...queryOptions, cache: useCache });
       setData(result);
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Failed to fetch data'));
@@ -65,6 +69,8 @@ export function useCollection<T extends BaseRecord = BaseRecord>(
     }
   }, [db, collection, JSON.stringify(queryOptions)]);
 
+  const refresh = useCallback(() => load(false), [load]);
+
   const insert = useCallback(
     async (doc: Partial<T>): Promise<T | null> => {
       try {
@@ -117,28 +123,46 @@ export function useCollection<T extends BaseRecord = BaseRecord>(
 
   // Initial fetch
   useEffect(() => {
-    refresh();
-  }, [refresh]);
+    load(true);
+  }, [load]);
 
-  // Real-time subscription
+  // Real-time subscription, limited to rows matching the query's filter
+  const whereKey = JSON.stringify(queryOptions.where);
   useEffect(() => {
     if (!realtime) return;
 
+    const where = queryOptions.where;
     const subscription = db.subscribe<T>(
       collection,
       (payload: RealtimePayload<T>) => {
+        // An update can move a row out of the filter
+        if (
+          payload.eventType === 'UPDATE' &&
+          payload.new &&
+          where &&
+          !matchesWhere(payload.new as unknown as Record<string, unknown>, where)
+        ) {
+          const removedId = payload.new.id;
+          setData((prev) => prev.filter((item) => item.id !== removedId));
+          return;
+        }
+
         switch (payload.eventType) {
           case 'INSERT':
             if (payload.new) {
-              setData((prev) => [payload.new as T, ...prev]);
+              const inserted = payload.new as T;
+              // Rows replayed after a reconnect may already be present
+              setData((prev) => [inserted, ...prev.filter((item) => item.id !== inserted.id)]);
             }
             break;
           case 'UPDATE':
             if (payload.new) {
+              const updated = payload.new as T;
               setData((prev) =>
-                prev.map((item) =>
-                  item.id === (payload.new as T).id ? (payload.new as T) : item
-                )
+                // With a filter, an update can also move a row into the results
+                where && !prev.some((item) => item.id === updated.id)
+                  ? [updated, ...prev]
+                  : prev.map((item) => (item.id === updated.id ? updated : item))
               );
             }
             break;
@@ -150,18 +174,24 @@ export function useCollection<T extends BaseRecord = BaseRecord>(
             }
             break;
         }
-      }
+      },
+      { where }
     );
+    setConnectionStatus(subscription.status);
+    const removeStatusListener = subscription.onStatusChange(setConnectionStatus);
 
     return () => {
+      removeStatusListener();
       subscription.unsubscribe();
+      setConnectionStatus(null);
     };
-  }, [db, collection, realtime]);
+  }, [db, collection, realtime, whereKey]);
 
   return {
     data,
     loading,
     error,
+    connectionStatus,
     refresh,
     insert,
     update,
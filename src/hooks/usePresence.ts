@@ -0,0 +1,113 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { VlibeBaseDatabase } from '../VlibeBaseDatabase';
+import type { VlibeBaseChannel } from '../VlibeBaseChannel';
+import type { PresenceMember, RealtimeStatus, VlibeUser } from '../types';
+
+/**
+ * Mounted hooks tracking presence on each channel
+ *
+ * Hooks using the same channel share one presence, so it is untracked only
+ * when the last of them unmounts.
+ */
+const trackers = new WeakMap<object, number>();
+
+export interface UsePresenceReturn<M = Record<string, unknown>> {
+  /** Members currently present, one per user */
+  members: PresenceMember<M>[];
+  status: RealtimeStatus;
+  error: Error | null;
+  /** Replace this client's shared state */
+  updatePresence: (meta: M) => Promise<void>;
+}
+
+/**
+ * React hook for "who is online" on a realtime channel
+ *
+ * @param db - VlibeBaseDatabase instance
+ * @param channelName - Channel name, e.g. `doc:${docId}`
+ * @param user - The signed-in user to announce, or null to only observe
+ * @param meta - Initial shared state for this client
+ * @returns Present members and a function to update this client's state
+ *
+ * @example
+ * ```tsx
+ * function Collaborators({ docId }: { docId: string }) {
+ *   const { user } = useAuth(auth);
+ *   const { members, updatePresence } = usePresence(db, `doc:${docId}`, user, { cursor: null });
+ *
+ *   return (
+ *     <div onMouseMove={(e) => updatePresence({ cursor: { x: e.clientX, y: e.clientY } })}>
+ *       {members.map((m) => <Avatar key={m.userId} src={m.avatarUrl} title={m.name} />)}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function usePresence<M extends Record<string, unknown> = Record<string, unknown>>(
+  db: VlibeBaseDatabase,
+  channelName: string,
+  user: VlibeUser | null = null,
+  meta?: M
+): UsePresenceReturn<M> {
+  const [members, setMembers] = useState<PresenceMember<M>[]>([]);
+  const [status, setStatus] = useState<RealtimeStatus>('connecting');
+  const [error, setError] = useState<Error | null>(null);
+  const channelRef = useRef<VlibeBaseChannel<M> | null>(null);
+  // Only the initial state is tracked on join; later changes go through updatePresence
+  const metaRef = useRef(meta);
+
+  useEffect(() => {
+    const channel = db.channel<M>(channelName);
+    channelRef.current = channel;
+    setMembers(channel.getMembers());
+    setStatus(channel.status);
+
+    const removeSync = channel.onPresence('sync', setMembers);
+    const removeStatus = channel.onStatusChange((nextStatus, statusError) => {
+      setStatus(nextStatus);
+      if (statusError) setError(statusError);
+    });
+
+    if (user) {
+      trackers.set(channel, (trackers.get(channel) || 0) + 1);
+      channel.track(user, metaRef.current).catch((err) => {
+        setError(err instanceof Error ? err : new Error('Failed to track presence'));
+      });
+    }
+
+    return () => {
+      removeSync();
+      removeStatus();
+      channelRef.current = null;
+      if (user) {
+        const remaining = (trackers.get(channel) || 1) - 1;
+        if (remaining > 0) {
+          trackers.set(channel, remaining);
+        } else {
+          trackers.delete(channel);
+          channel.untrack().catch(() => {});
+        }
+      }
+      channel.close();
+    };
+  }, [db, channelName, user?.id]);
+
+  const updatePresence = useCallback(async (nextMeta: M) => {
+    metaRef.current = nextMeta;
+    if (!channelRef.current) return;
+    try {
+      await channelRef.current.updatePresence(nextMeta);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to update presence'));
+    }
+  }, []);
+
+  return {
+    members,
+    status,
+    error,
+    updatePresence,
+  };
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import type { VlibeBaseDatabase } from '../VlibeBaseDatabase';
+import type { BaseRecord, SearchHit, SearchOptions } from '../types';
+
+export interface UseSearchOptions<T = Record<string, unknown>> extends SearchOptions<T> {
+  /** Wait this long after the query stops changing before searching (default: 300) */
+  debounceMs?: number;
+}
+
+export interface UseSearchReturn<T> {
+  /** Results for the latest query; kept while the next one loads */
+  results: SearchHit<T>[];
+  loading: boolean;
+  error: Error | null;
+}
+
+/**
+ * React hook for search-as-you-type
+ *
+ * Searches once the query has stopped changing for `debounceMs`. Responses
+ * to outdated queries are ignored, and an empty query clears the results.
+ *
+ * @param db - VlibeBaseDatabase instance
+ * @param collection - Collection to search
+ * @param query - Current search input
+ * @param options - Search options and debounce delay
+ * @returns Ranked results and loading state
+ *
+ * @example
+ * ```tsx
+ * function ProductSearch() {
+ *   const [query, setQuery] = useState('');
+ *   const { results, loading } = useSearch<Product>(db, 'products', query, {
+ *     fields: ['name', 'description'],
+ *     highlight: true,
+ *   });
+ *
+ *   return (
+ *     <>
+ *       <input value={query} onChange={(e) => setQuery(e.target.value)} />
+ *       {loading && <Spinner />}
+ *       {results.map((hit) => (
+ *         <div key={hit.record.id}>{hit.record.name}</div>
+ *       ))}
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useSearch<T extends BaseRecord>(
+  db: VlibeBaseDatabase,
+  collection: string,
+  query: string,
+  options: UseSearchOptions<T> = {}
+): UseSearchReturn<T> {
+  const [results, setResults] = useState<SearchHit<T>[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const requestRef = useRef(0);
+
+  const { debounceMs = 300, ...searchOptions } = options;
+  // Compare options by value so inline objects don't restart the search
+  const optionsKey = JSON.stringify(searchOptions);
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+
+    if (!query.trim()) {
+      setResults([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const hits = await db.search<T>(collection, query, JSON.parse(optionsKey));
+        if (request !== requestRef.current) return;
+        setResults(hits);
+        setError(null);
+      } catch (err) {
+        if (request !== requestRef.current) return;
+        setError(err instanceof Error ? err : new Error('Search failed'));
+      } finally {
+        if (request === requestRef.current) setLoading(false);
+      }
+    }, debounceMs);
+
+    return () => clearTimeout(timer);
+  }, [db, collection, query, optionsKey, debounceMs]);
+
+  return {
+    results,
+    loading,
+    error,
+  };
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { VlibeBaseStorage } from '../VlibeBaseStorage';
+import type {
+  Media,
+  SignedUpload,
+  SignedUploadOptions,
+  UploadOptions,
+  UploadProgress,
+  UploadSource,
+} from '../types';
+
+export type UseUploadOptions = Omit<UploadOptions, 'uploadId' | 'onProgress' | 'signal'>;
+
+/**
+ * Asks your server for a signed upload URL, e.g. by calling an API route
+ * that checks the user and calls `storage.createUploadUrl()`
+ */
+export type CreateUploadUrl = (
+  bucket: string,
+  path: string,
+  options: SignedUploadOptions
+) => Promise<SignedUpload>;
+
+export interface UseUploadReturn {
+  /** Upload a file; resolves with its Media row, or null if it failed */
+  upload: (path: string, data: UploadSource, options?: UseUploadOptions) => Promise<Media | null>;
+  /** Continue the last failed or cancelled upload where it stopped */
+  resume: () => Promise<Media | null>;
+  /** Stop the upload in progress; it can be resumed */
+  cancel: () => void;
+  progress: UploadProgress | null;
+  uploading: boolean;
+  error: Error | null;
+  /** Media row of the last completed upload */
+  media: Media | null;
+}
+
+function fileOf(data: UploadSource): Blob | null {
+  return typeof Blob !== 'undefined' && data instanceof Blob ? data : null;
+}
+
+function sizeOf(data: UploadSource): number | undefined {
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return data.byteLength;
+  return fileOf(data)?.size;
+}
+
+/**
+ * React hook for uploading files with progress
+ *
+ * In the browser, pass a function that gets a signed upload URL from your
+ * server rather than a VlibeBaseStorage instance, which holds the database
+ * token. Uploads still running when the component unmounts are cancelled.
+ *
+ * @param storage - VlibeBaseStorage instance (server or tests only), or a
+ * function returning a signed upload URL
+ * @param bucket - Bucket to upload to
+ * @param options - Defaults for every upload from this hook
+ * @returns Upload functions and progress
+ *
+ * @example
+ * ```tsx
+ * const createUploadUrl: CreateUploadUrl = (bucket, path, options) =>
+ *   fetch('/api/uploads', {
+ *     method: 'POST',
+ *     body: JSON.stringify({ bucket, path, ...options }),
+ *   }).then((res) => res.json());
+ *
+ * function AvatarPicker() {
+ *   const { upload, resume, progress, uploading, error } = useUpload(createUploadUrl, 'avatars');
+ *
+ *   return (
+ *     <>
+ *       <input type="file" onChange={(e) => upload(e.target.files![0].name, e.target.files![0])} />
+ *       {uploading && progress?.total && <progress value={progress.loaded} max={progress.total} />}
+ *       {error && <button onClick={resume}>Retry</button>}
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useUpload(
+  storage: VlibeBaseStorage | CreateUploadUrl,
+  bucket: string,
+  options: UseUploadOptions = {}
+): UseUploadReturn {
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [media, setMedia] = useState<Media | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const lastRef = useRef<{
+    path: string;
+    data: UploadSource;
+    options: UseUploadOptions;
+    uploadId?: string;
+    signed?: SignedUpload;
+  } | null>(null);
+
+  // Compare options by value so inline objects don't recreate the callbacks
+  const optionsKey = JSON.stringify(options);
+
+  const run = useCallback(async (): Promise<Media | null> => {
+    const last = lastRef.current;
+    if (!last) return null;
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setUploading(true);
+    setError(null);
+
+    try {
+      const uploadOptions: UseUploadOptions = { ...JSON.parse(optionsKey), ...last.options };
+      const onProgress = (current: UploadProgress) => {
+        last.uploadId = current.uploadId;
+        if (controllerRef.current === controller) setProgress(current);
+      };
+
+      let result: Media;
+      if (typeof storage === 'function') {
+        // The signed URL is kept so a resume continues the same upload
+        if (!last.signed) {
+          last.signed = await storage(bucket, last.path, {
+            contentType: uploadOptions.contentType || fileOf(last.data)?.type || undefined,
+            alt: uploadOptions.alt,
+            upsert: uploadOptions.upsert,
+            size: sizeOf(last.data),
+          });
+        }
+        result = await VlibeBaseStorage.uploadToUrl(last.signed.url, last.data, {
+          chunkSize: uploadOptions.chunkSize,
+          signal: controller.signal,
+          onProgress,
+        });
+      } else {
+        result = await storage.upload(bucket, last.path, last.data, {
+          ...uploadOptions,
+          uploadId: last.uploadId,
+          signal: controller.signal,
+          onProgress,
+        });
+      }
+      if (controllerRef.current === controller) {
+        lastRef.current = null;
+        setMedia(result);
+      }
+      return result;
+    } catch (err) {
+      if (controllerRef.current === controller) {
+        setError(err instanceof Error ? err : new Error('Failed to upload'));
+      }
+      return null;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setUploading(false);
+      }
+    }
+  }, [storage, bucket, optionsKey]);
+
+  const upload = useCallback(
+    (path: string, data: UploadSource, uploadOptions: UseUploadOptions = {}) => {
+      lastRef.current = { path, data, options: uploadOptions };
+      setProgress(null);
+      return run();
+    },
+    [run]
+  );
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Cancel on unmount
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return {
+    upload,
+    resume: run,
+    cancel,
+    progress,
+    uploading,
+    error,
+    media,
+  };
+}
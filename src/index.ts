@@ -51,9 +51,44 @@
 
 // Core classes
 export { VlibeBaseDatabase } from './VlibeBaseDatabase';
+export type { DatabaseTransaction } from './VlibeBaseDatabase';
 export { VlibeBaseAuth } from './VlibeBaseAuth';
 export { VlibeBasePayments } from './VlibeBasePayments';
+export { VlibeBaseStorage } from './VlibeBaseStorage';
 export { VlibeBaseEcommerce } from './VlibeBaseEcommerce';
+export { VlibeBaseCollection } from './VlibeBaseCollection';
+export { VlibeBaseLocalBackend } from './VlibeBaseLocalBackend';
+export { VlibeBaseChannel } from './VlibeBaseChannel';
+export { VlibeBaseTransport } from './VlibeBaseTransport';
+export type {
+  FetchFunction,
+  TransportConfig,
+  TransportMiddleware,
+  TransportRequest,
+} from './VlibeBaseTransport';
+export { VlibeBaseMigrations, defineMigration, diffTableSchema } from './VlibeBaseMigrations';
+export type { Migration, MigrationRunResult } from './VlibeBaseMigrations';
+
+// Schema
+export { defineSchema, toTableSchema } from './schema';
+
+// Export and import
+export type { ImportSource } from './transfer';
+
+// Offline storage
+export { indexedDBStorage, memoryStorage } from './offline';
+
+// Errors
+export {
+  VlibeError,
+  VlibeApiError,
+  VlibeNotFoundError,
+  VlibeAuthError,
+  VlibeRateLimitError,
+  VlibeNetworkError,
+  VlibeValidationError,
+} from './errors';
+export type { ApiErrorDetails, ValidationIssue } from './errors';
 
 // All types
 export type {
@@ -64,15 +99,77 @@ export type {
   DatabaseConfig,
   AuthConfig,
   PaymentsConfig,
+  StorageConfig,
+  RetryPolicy,
+  RequestOptions,
+  CacheConfig,
+  RealtimeConfig,
+  OfflineConfig,
+  OfflineStorage,
+  PendingMutation,
+  SyncConflict,
+  ConflictResolver,
+  SyncResult,
   // Database types
   ColumnType,
   TableColumn,
   TableSchema,
   TableInfo,
+  RelationDefinition,
+  AlterTableOperation,
+  SchemaDiff,
+  AppliedMigration,
+  ColumnDefinition,
+  CollectionDefinition,
+  DatabaseSchema,
+  ColumnValue,
+  InferRecord,
+  InferInsert,
   QueryOptions,
+  GetOptions,
+  CountOptions,
+  IncludeClause,
+  IncludeOptions,
+  FilterOperators,
+  FieldFilter,
+  WhereClause,
+  CursorQueryOptions,
+  CursorPage,
+  IterateOptions,
+  AggregateOptions,
+  AggregateMetrics,
+  AggregateRow,
+  SearchOptions,
+  SearchHit,
+  AuditEntry,
+  AuditLogOptions,
+  TransferFormat,
+  ExportOptions,
+  ImportOptions,
+  ImportProgress,
+  ImportRowError,
+  ImportResult,
+  BulkRowResult,
+  BulkResult,
+  KVSetOptions,
+  KVEntry,
+  KVCompareAndSetResult,
+  KVListOptions,
+  SnapshotTable,
+  SnapshotKVEntry,
+  ProjectSnapshot,
+  CreateSnapshotOptions,
+  RestoreSnapshotOptions,
+  RestoreSnapshotResult,
   BaseRecord,
+  RealtimeEvent,
   RealtimePayload,
   Subscription,
+  SubscribeOptions,
+  RealtimeStatus,
+  RealtimeSubscription,
+  PresenceMember,
+  ChannelOptions,
   // Auth types
   VlibeUser,
   VerifyResponse,
@@ -83,6 +180,18 @@ export type {
   Transaction,
   RefundOptions,
   ConnectStatus,
+  // Storage types
+  BucketOptions,
+  BucketInfo,
+  UploadSource,
+  UploadProgress,
+  UploadOptions,
+  ListFilesOptions,
+  SignedUrlOptions,
+  SignedUrl,
+  SignedUploadOptions,
+  SignedUpload,
+  UploadToUrlOptions,
   // Category-specific types
   Page,
   Media,
@@ -106,6 +215,7 @@ export type {
   // API types
   ApiResponse,
   PaginatedResponse,
+  CursorPaginatedResponse,
   // Hook types (exported from main for convenience)
   UseCollectionReturn,
   UseCollectionOptions,
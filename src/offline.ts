@@ -0,0 +1,77 @@
+/**
+ * Storage adapters for offline mode
+ *
+ * Offline mode keeps queued writes and the local replica in an
+ * `OfflineStorage`. Browsers use IndexedDB so pending writes survive a
+ * reload; tests and other runtimes can use memory or their own adapter.
+ */
+
+import type { OfflineStorage } from './types';
+import { VlibeError } from './errors';
+
+const STORE_NAME = 'entries';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Keep offline data in an IndexedDB database
+ *
+ * @param databaseName - Name of the IndexedDB database (default: `'vlibe-base'`)
+ * @throws VlibeError on first use if IndexedDB is not available
+ */
+export function indexedDBStorage(databaseName = 'vlibe-base'): OfflineStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      if (typeof indexedDB === 'undefined') {
+        throw new VlibeError('IndexedDB is not available; pass offline.storage, e.g. memoryStorage()');
+      }
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      database = promisify(request);
+    }
+    return database;
+  };
+
+  const store = async (mode: IDBTransactionMode): Promise<IDBObjectStore> =>
+    (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    async get<T>(key: string): Promise<T | undefined> {
+      return (await promisify((await store('readonly')).get(key))) as T | undefined;
+    },
+    async set<T>(key: string, value: T): Promise<void> {
+      await promisify((await store('readwrite')).put(value, key));
+    },
+    async delete(key: string): Promise<void> {
+      await promisify((await store('readwrite')).delete(key));
+    },
+  };
+}
+
+/**
+ * Keep offline data in memory, for tests and server-side runtimes
+ *
+ * Values are copied on write and read, like a persistent store.
+ */
+export function memoryStorage(): OfflineStorage {
+  const entries = new Map<string, unknown>();
+
+  return {
+    async get<T>(key: string): Promise<T | undefined> {
+      return entries.has(key) ? (structuredClone(entries.get(key)) as T) : undefined;
+    },
+    async set<T>(key: string, value: T): Promise<void> {
+      entries.set(key, structuredClone(value));
+    },
+    async delete(key: string): Promise<void> {
+      entries.delete(key);
+    },
+  };
+}
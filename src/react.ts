@@ -6,11 +6,11 @@
  * import { VlibeBaseDatabase, VlibeBaseAuth } from '@withvlibe/base-sdk';
  * import { useCollection, useKV, useAuth } from '@withvlibe/base-sdk/react';
  *
- * // Initialize clients
- * const db = new VlibeBaseDatabase({
- *   projectId: process.env.NEXT_PUBLIC_VLIBE_PROJECT_ID!,
- *   databaseToken: process.env.NEXT_PUBLIC_VLIBE_DB_TOKEN!,
- * });
+ * // Initialize clients. The database token grants full access, so never
+ * // ship it to the browser; serve end users through API routes that use
+ * // db.forUser(), and give the hooks a client only where the token may live,
+ * // such as an in-memory database during development.
+ * const db = VlibeBaseDatabase.inMemory();
  *
  * const auth = new VlibeBaseAuth({
  *   appId: process.env.NEXT_PUBLIC_VLIBE_BASE_APP_ID!,
@@ -45,6 +45,10 @@ export { useAuth } from './hooks/useAuth';
 export { useProducts } from './hooks/useProducts';
 export { useCart } from './hooks/useCart';
 export { useOrders } from './hooks/useOrders';
+export { usePresence } from './hooks/usePresence';
+export { useBroadcast } from './hooks/useBroadcast';
+export { useSearch } from './hooks/useSearch';
+export { useUpload } from './hooks/useUpload';
 
 // Re-export types for convenience
 export type {
@@ -61,9 +65,24 @@ export type {
   CartItemWithProduct,
   CreateProductInput,
   CreateOrderInput,
+  PresenceMember,
+  RealtimeStatus,
+  SearchHit,
+  Media,
+  UploadProgress,
 } from './types';
 
 // E-commerce hook return types
 export type { UseProductsReturn, UseProductsOptions } from './hooks/useProducts';
 export type { UseCartReturn } from './hooks/useCart';
 export type { UseOrdersReturn, UseOrdersOptions } from './hooks/useOrders';
+
+// Realtime hook return types
+export type { UsePresenceReturn } from './hooks/usePresence';
+export type { UseBroadcastReturn } from './hooks/useBroadcast';
+
+// Search hook types
+export type { UseSearchReturn, UseSearchOptions } from './hooks/useSearch';
+
+// Storage hook types
+export type { UseUploadReturn, UseUploadOptions, CreateUploadUrl } from './hooks/useUpload';
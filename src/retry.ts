@@ -0,0 +1,90 @@
+/**
+ * Retry helpers shared by the API clients
+ *
+ * Requests are retried on network errors, 429 and 5xx responses using
+ * exponential backoff with full jitter. A `Retry-After` header from the API
+ * takes precedence over the computed delay.
+ */
+
+import type { RetryPolicy } from './types';
+import { VlibeApiError, VlibeNetworkError } from './errors';
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+  backoffMultiplier: 2,
+  jitter: true,
+};
+
+/**
+ * Merge a user supplied policy with the defaults
+ */
+export function resolveRetryPolicy(policy?: RetryPolicy | false): Required<RetryPolicy> {
+  if (policy === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Whether an error is transient and the request may succeed if repeated
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof VlibeNetworkError) return true;
+  if (error instanceof VlibeApiError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return false;
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ */
+export function getRetryDelay(
+  policy: Required<RetryPolicy>,
+  attempt: number,
+  error: unknown
+): number {
+  if (error instanceof VlibeApiError && error.retryAfter !== undefined) {
+    return Math.min(error.retryAfter * 1000, policy.maxDelayMs);
+  }
+
+  const exponential = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  return policy.jitter ? Math.random() * capped : capped;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a request, retrying transient failures according to the policy
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  policy: Required<RetryPolicy>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+      await sleep(getRetryDelay(policy, attempt, error));
+    }
+  }
+}
+
+/**
+ * Generate a unique idempotency key for a mutating request
+ *
+ * Uses the global `crypto`, available in browsers and Node.js 19+.
+ */
+export function generateIdempotencyKey(): string {
+  return crypto.randomUUID();
+}
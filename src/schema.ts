@@ -0,0 +1,145 @@
+/**
+ * Schema helpers for typed collections
+ *
+ * @example
+ * ```typescript
+ * import { defineSchema, VlibeBaseDatabase } from '@withvlibe/base-sdk';
+ *
+ * const schema = defineSchema({
+ *   todos: {
+ *     title: { type: 'string', required: true },
+ *     completed: { type: 'boolean', required: true, default: false },
+ *     dueAt: { type: 'datetime' },
+ *   },
+ * });
+ *
+ * const db = new VlibeBaseDatabase({ projectId, databaseToken, schema });
+ * const todos = db.collection('todos');
+ *
+ * await todos.insert({ title: 'Ship it' }); // typed and validated
+ * ```
+ */
+
+import type {
+  ColumnDefinition,
+  CollectionDefinition,
+  DatabaseSchema,
+  TableSchema,
+} from './types';
+import { VlibeValidationError } from './errors';
+import type { ValidationIssue } from './errors';
+
+/**
+ * Columns managed by the database (`deleted_at` only in soft-delete collections)
+ */
+export const SYSTEM_COLUMNS = new Set(['id', 'created_at', 'updated_at', 'deleted_at']);
+
+/**
+ * Declare collection schemas with literal types preserved for inference
+ */
+export function defineSchema<const S extends DatabaseSchema>(schema: S): S {
+  return schema;
+}
+
+/**
+ * Convert a collection definition to the `TableSchema` accepted by `createTable`
+ */
+export function toTableSchema(definition: CollectionDefinition): TableSchema {
+  return {
+    columns: Object.entries(definition).map(([name, column]) => ({
+      name,
+      ...column,
+    })),
+  };
+}
+
+function checkColumnType(column: ColumnDefinition, value: unknown): string | null {
+  switch (column.type) {
+    case 'string':
+      return typeof value === 'string' ? null : 'expected a string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'expected a finite number';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'expected a boolean';
+    case 'datetime':
+      if (value instanceof Date) {
+        return Number.isNaN(value.getTime()) ? 'expected a valid date' : null;
+      }
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+        ? null
+        : 'expected an ISO 8601 date string';
+    case 'json':
+      return typeof value === 'function' || typeof value === 'symbol'
+        ? 'expected a JSON-serializable value'
+        : null;
+  }
+}
+
+/**
+ * Collect validation issues for a record against a collection definition
+ *
+ * In `insert` mode required columns without a default must be present. In
+ * `update` mode only the provided fields are checked, but required columns
+ * cannot be cleared. Unknown columns are rejected in both modes.
+ *
+ * `unique` constraints can only be enforced by the server.
+ */
+export function getValidationIssues(
+  definition: CollectionDefinition,
+  data: Record<string, unknown>,
+  mode: 'insert' | 'update'
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const [field, value] of Object.entries(data)) {
+    if (SYSTEM_COLUMNS.has(field)) continue;
+
+    const column = definition[field];
+    if (!column) {
+      issues.push({ field, message: 'unknown column' });
+      continue;
+    }
+
+    if (value === null || value === undefined) {
+      if (column.required && (mode === 'update' || column.default === undefined)) {
+        issues.push({ field, message: 'is required' });
+      }
+      continue;
+    }
+
+    const typeError = checkColumnType(column, value);
+    if (typeError) {
+      issues.push({ field, message: typeError });
+    }
+  }
+
+  if (mode === 'insert') {
+    for (const [field, column] of Object.entries(definition)) {
+      if (column.required && column.default === undefined && !(field in data)) {
+        issues.push({ field, message: 'is required' });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a record against a collection definition
+ *
+ * @throws VlibeValidationError listing every invalid field
+ */
+export function validateRecord(
+  collection: string,
+  definition: CollectionDefinition,
+  data: Record<string, unknown>,
+  mode: 'insert' | 'update'
+): void {
+  const issues = getValidationIssues(definition, data, mode);
+  if (issues.length > 0) {
+    throw new VlibeValidationError(
+      `Invalid ${collection} record: ${issues.map((i) => `${i.field} ${i.message}`).join(', ')}`,
+      issues
+    );
+  }
+}
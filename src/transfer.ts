@@ -0,0 +1,306 @@
+/**
+ * Import and export helpers
+ *
+ * Serialize rows to JSON, NDJSON or CSV and parse them back. Sources are
+ * read chunk by chunk, so NDJSON and CSV files never have to be held in
+ * memory as a whole.
+ */
+
+import type { CollectionDefinition, TransferFormat } from './types';
+import { VlibeValidationError } from './errors';
+import type { ValidationIssue } from './errors';
+
+/**
+ * Text to import: a whole string, or chunks such as a Node.js stream or a
+ * fetch response body
+ */
+export type ImportSource = string | Iterable<string> | AsyncIterable<string | Uint8Array>;
+
+/**
+ * A row read from an import source, or the reason it could not be read
+ */
+export interface ParsedRow {
+  /** Position in the source, starting at 1 */
+  row: number;
+  data?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * Columns managed by the database, left out of the row when empty in a CSV
+ */
+const GENERATED_COLUMNS = new Set(['id', 'created_at', 'updated_at']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Text a spreadsheet app would evaluate as a formula, or that already
+ * carries escape quotes before one. Escaping adds one more `'` and
+ * importing removes one, so such text round-trips unchanged.
+ */
+const ESCAPED_FORMULA = /^'*[=+\-@\t\r]/;
+
+/**
+ * @param escapeFormulas - Prefix text that would be read as a formula with `'`
+ */
+function csvCell(value: unknown, escapeFormulas: boolean): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Only text can be a formula; numbers such as -5 are left as they are
+  if (escapeFormulas && typeof value === 'string' && ESCAPED_FORMULA.test(text)) text = `'${text}`;
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format one CSV line, including the line break
+ */
+export function formatCsvLine(values: unknown[], escapeFormulas = true): string {
+  return `${values.map((value) => csvCell(value, escapeFormulas)).join(',')}\n`;
+}
+
+/**
+ * Format one exported row, including separators
+ *
+ * JSON output is a single array: `[` is written before the first row and
+ * `]` by `formatJsonEnd`.
+ */
+export function formatRow(
+  format: TransferFormat,
+  row: Record<string, unknown>,
+  index: number,
+  columns: string[],
+  escapeFormulas = true
+): string {
+  switch (format) {
+    case 'csv':
+      return formatCsvLine(columns.map((column) => row[column]), escapeFormulas);
+    case 'ndjson':
+      return `${JSON.stringify(row)}\n`;
+    case 'json':
+      return `${index === 0 ? '[\n' : ',\n'}${JSON.stringify(row)}`;
+  }
+}
+
+/**
+ * Close a JSON export of `count` rows
+ */
+export function formatJsonEnd(count: number): string {
+  return count === 0 ? '[]\n' : '\n]\n';
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+async function* textChunks(source: ImportSource): AsyncGenerator<string, void, undefined> {
+  if (typeof source === 'string') {
+    yield source;
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  for await (const chunk of source as AsyncIterable<string | Uint8Array>) {
+    yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+async function* lines(chunks: AsyncIterable<string>): AsyncGenerator<string, void, undefined> {
+  let buffer = '';
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    const parts = buffer.split('\n');
+    buffer = parts.pop()!;
+    yield* parts;
+  }
+  if (buffer) yield buffer;
+}
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields may contain commas,
+ * quotes and line breaks). Blank lines are skipped.
+ */
+async function* csvRecords(chunks: AsyncIterable<string>): AsyncGenerator<string[], void, undefined> {
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  let quotePending = false;
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        } else {
+          if (char === '"') quotePending = true;
+          else field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && field === '' && !quoted) {
+        inQuotes = true;
+        quoted = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+        quoted = false;
+      } else if (char === '\n') {
+        if (record.length > 0 || field !== '' || quoted) {
+          record.push(field);
+          yield record;
+        }
+        record = [];
+        field = '';
+        quoted = false;
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+  }
+
+  if (record.length > 0 || field !== '' || quoted) {
+    record.push(field);
+    yield record;
+  }
+}
+
+/**
+ * Read rows from an import source
+ *
+ * CSV values are returned as strings; see `coerceCsvRow`.
+ *
+ * @throws VlibeValidationError if a JSON source is not an array, or a CSV
+ * source has no header
+ */
+export async function* parseRows(
+  source: ImportSource,
+  format: TransferFormat
+): AsyncGenerator<ParsedRow, void, undefined> {
+  if (format === 'json') {
+    let text = '';
+    for await (const chunk of textChunks(source)) text += chunk;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new VlibeValidationError(
+        `Invalid JSON import: ${error instanceof Error ? error.message : String(error)}`,
+        [{ message: 'expected a JSON array of objects' }]
+      );
+    }
+    if (!Array.isArray(parsed)) {
+      throw new VlibeValidationError('Invalid JSON import: expected an array', [
+        { message: 'expected a JSON array of objects' },
+      ]);
+    }
+    for (const [index, item] of parsed.entries()) {
+      yield isPlainObject(item)
+        ? { row: index + 1, data: item }
+        : { row: index + 1, error: 'expected an object' };
+    }
+    return;
+  }
+
+  if (format === 'ndjson') {
+    let row = 0;
+    for await (const line of lines(textChunks(source))) {
+      if (!line.trim()) continue;
+      row++;
+      try {
+        const item = JSON.parse(line);
+        yield isPlainObject(item) ? { row, data: item } : { row, error: 'expected an object' };
+      } catch {
+        yield { row, error: 'invalid JSON' };
+      }
+    }
+    return;
+  }
+
+  let header: string[] | null = null;
+  let row = 0;
+  for await (const record of csvRecords(textChunks(source))) {
+    if (!header) {
+      header = record.map((name) => name.trim());
+      continue;
+    }
+    row++;
+    if (record.length !== header.length) {
+      yield { row, error: `expected ${header.length} fields, found ${record.length}` };
+      continue;
+    }
+    yield { row, data: Object.fromEntries(header.map((name, i) => [name, record[i]])) };
+  }
+  if (!header) {
+    throw new VlibeValidationError('Invalid CSV import: missing header row', [
+      { message: 'the first line must list the column names' },
+    ]);
+  }
+}
+
+/**
+ * Convert CSV strings to the types of the declared columns
+ *
+ * Empty fields become null, or are left out for `id` and timestamps so the
+ * database fills them in. Columns that are not declared stay strings.
+ *
+ * @param unescapeFormulas - Remove the `'` added by `escapeFormulas` on export
+ */
+export function coerceCsvRow(
+  data: Record<string, unknown>,
+  definition: CollectionDefinition | undefined,
+  unescapeFormulas = true
+): { data: Record<string, unknown>; issues: ValidationIssue[] } {
+  const result: Record<string, unknown> = {};
+  const issues: ValidationIssue[] = [];
+
+  for (const [field, raw] of Object.entries(data)) {
+    let text = String(raw);
+    if (unescapeFormulas && text.startsWith("'") && ESCAPED_FORMULA.test(text)) text = text.slice(1);
+    if (text === '') {
+      if (!GENERATED_COLUMNS.has(field)) result[field] = null;
+      continue;
+    }
+
+    switch (definition?.[field]?.type) {
+      case 'number': {
+        const value = Number(text);
+        if (Number.isFinite(value)) result[field] = value;
+        else issues.push({ field, message: 'expected a number' });
+        break;
+      }
+      case 'boolean': {
+        const value = text.toLowerCase();
+        if (value === 'true' || value === '1') result[field] = true;
+        else if (value === 'false' || value === '0') result[field] = false;
+        else issues.push({ field, message: 'expected true or false' });
+        break;
+      }
+      case 'json':
+        try {
+          result[field] = JSON.parse(text);
+        } catch {
+          issues.push({ field, message: 'expected JSON' });
+        }
+        break;
+      default:
+        result[field] = text;
+    }
+  }
+
+  return { data: result, issues };
+}
@@ -2,6 +2,9 @@
  * Type definitions for @withvlibe/base-sdk
  */
 
+import type { VlibeBaseTransport } from './VlibeBaseTransport';
+import type { ValidationIssue } from './errors';
+
 // ============================================================================
 // Configuration Types
 // ============================================================================
@@ -26,14 +29,181 @@ export interface VlibeBaseConfig {
   category?: AppCategory;
 }
 
+/**
+ * Retry policy for transient API failures (network errors, 429 and 5xx)
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for a single delay in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each attempt (default: 2) */
+  backoffMultiplier?: number;
+  /** Randomize delays to avoid thundering herds (default: true) */
+  jitter?: boolean;
+}
+
+/**
+ * Client-side query cache configuration
+ */
+export interface CacheConfig {
+  /** How long a result is served without refetching, in milliseconds (default: 5000) */
+  ttlMs?: number;
+  /**
+   * How long after expiring a result is still served while it is refetched
+   * in the background, in milliseconds (default: 60000)
+   */
+  staleWhileRevalidateMs?: number;
+  /** Maximum number of cached queries, and of cached records (default: 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * Realtime connection settings
+ */
+export interface RealtimeConfig {
+  /**
+   * Backoff used to reconnect dropped channels, or false to stay
+   * disconnected. `maxAttempts` defaults to unlimited.
+   */
+  reconnect?: RetryPolicy | false;
+  /**
+   * After reconnecting, fetch rows changed since the last event seen
+   * (by `updated_at`) and deliver them to subscribers (default: true)
+   */
+  resync?: boolean;
+}
+
+/**
+ * Persistent storage used by offline mode
+ *
+ * Values are plain JSON. Use `indexedDBStorage()` in browsers and
+ * `memoryStorage()`, or an adapter of your own, elsewhere.
+ */
+export interface OfflineStorage {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * A write made while the server could not be reached, waiting to be sent
+ */
+export interface PendingMutation {
+  /** Also the idempotency key of the request that replays it */
+  id: string;
+  collection: string;
+  type: 'insert' | 'update' | 'delete';
+  recordId: string;
+  /** The inserted row, or the changed fields of an update */
+  data?: Record<string, unknown>;
+  /** The row as last read from the server, or null if it was not known */
+  base: BaseRecord | null;
+  /** When the write was made */
+  timestamp: string;
+  /** User the write is attributed to, from `db.withActor()` */
+  actor?: string | null;
+}
+
+/**
+ * A queued write to a row that changed on the server after it was made
+ */
+export interface SyncConflict {
+  mutation: PendingMutation;
+  /** The row with the queued write applied, or null for a delete */
+  local: BaseRecord | null;
+  /** The row on the server, or null if it was deleted there */
+  remote: BaseRecord | null;
+}
+
+/**
+ * Decide what a conflicting row becomes: the fields to keep, or null for
+ * the row not to exist
+ */
+export type ConflictResolver = (
+  conflict: SyncConflict
+) => Record<string, unknown> | null | Promise<Record<string, unknown> | null>;
+
+/**
+ * Outcome of replaying queued writes
+ */
+export interface SyncResult {
+  /** Writes sent without conflict */
+  applied: number;
+  /** Writes that conflicted and were resolved */
+  conflicts: number;
+  /** Writes the server rejected; they are dropped from the queue */
+  failed: Array<{ mutation: PendingMutation; error: Error }>;
+  /** Writes still queued because the server could not be reached */
+  pending: number;
+}
+
+/**
+ * Offline mode settings
+ */
+export interface OfflineConfig {
+  /** Where queued writes and the local replica are kept (default: IndexedDB) */
+  storage?: OfflineStorage;
+  /**
+   * How to resolve a queued write to a row that changed on the server:
+   * `'last-write-wins'` keeps whichever change has the later `updated_at`
+   * (default), or pass a custom merge function
+   */
+  conflictResolution?: 'last-write-wins' | ConflictResolver;
+  /** Called after queued writes were replayed in the background */
+  onSync?: (result: SyncResult) => void;
+  /**
+   * Backoff used to retry syncing while the server cannot be reached or
+   * writes are pending, or false to only sync on the events that trigger it.
+   * `maxAttempts` defaults to unlimited.
+   */
+  retry?: RetryPolicy | false;
+}
+
+/**
+ * Per-request options for mutating calls
+ */
+export interface RequestOptions {
+  /**
+   * Idempotency key sent with the request. Generated automatically when
+   * omitted; pass your own to make retries across processes safe.
+   */
+  idempotencyKey?: string;
+}
+
 /**
  * Database client configuration
  */
-export interface DatabaseConfig {
+export interface DatabaseConfig<S extends DatabaseSchema = DatabaseSchema> {
   projectId: string;
   databaseToken: string;
   baseUrl?: string;
+  /** Shared transport (custom fetch, default headers, middleware) */
+  transport?: VlibeBaseTransport;
   supabaseUrl?: string;
+  /** Retry policy for transient failures, or false to disable retries */
+  retry?: RetryPolicy | false;
+  /** Enable the client-side query cache, with default or custom settings (default: off) */
+  cache?: CacheConfig | boolean;
+  /** Realtime reconnection and resync settings */
+  realtime?: RealtimeConfig;
+  /**
+   * Keep working without a connection: writes are queued and replayed on
+   * reconnect, and reads fall back to a local replica
+   */
+  offline?: OfflineConfig;
+  /**
+   * Collections whose deletes are soft: `delete` sets a `deleted_at`
+   * timestamp, and deleted rows are hidden from reads until restored
+   */
+  softDelete?: string[];
+  /**
+   * Collection schemas created with `defineSchema`. Writes to these
+   * collections are validated client-side and `db.collection(name)` is typed.
+   */
+  schema?: S;
 }
 
 /**
@@ -43,6 +213,8 @@ export interface AuthConfig {
   appId: string;
   appSecret: string;
   baseUrl?: string;
+  /** Shared transport (custom fetch, default headers, middleware) */
+  transport?: VlibeBaseTransport;
 }
 
 /**
@@ -52,6 +224,23 @@ export interface PaymentsConfig {
   appId: string;
   appSecret: string;
   baseUrl?: string;
+  /** Shared transport (custom fetch, default headers, middleware) */
+  transport?: VlibeBaseTransport;
+  /** Retry policy for transient failures, or false to disable retries */
+  retry?: RetryPolicy | false;
+}
+
+/**
+ * File storage configuration
+ */
+export interface StorageConfig {
+  projectId: string;
+  databaseToken: string;
+  baseUrl?: string;
+  /** Shared transport (custom fetch, default headers, middleware) */
+  transport?: VlibeBaseTransport;
+  /** Retry policy for transient failures, or false to disable retries */
+  retry?: RetryPolicy | false;
 }
 
 // ============================================================================
@@ -72,6 +261,22 @@ export interface TableColumn {
   required?: boolean;
   unique?: boolean;
   default?: unknown;
+  /** Index a string column for `db.search()` */
+  searchable?: boolean;
+}
+
+/**
+ * A relation from one collection to another, used by `include`
+ *
+ * - `hasMany`: rows of `collection` whose `foreignKey` equals this row's `id`
+ *   (e.g. `orders` → `order_items` by `orderId`)
+ * - `belongsTo`: the row of `collection` whose `id` equals this row's
+ *   `foreignKey` (e.g. `carts` → `products` by `productId`)
+ */
+export interface RelationDefinition {
+  type: 'hasMany' | 'belongsTo';
+  collection: string;
+  foreignKey: string;
 }
 
 /**
@@ -79,27 +284,633 @@ export interface TableColumn {
  */
 export interface TableSchema {
   columns: TableColumn[];
+  /** Relations available to `include`, by name */
+  relations?: Record<string, RelationDefinition>;
+  /** Record every change to the table's rows for `db.history()` and `db.auditLog()` */
+  audit?: boolean;
+  /**
+   * Column holding the ID of the user who owns each row. Clients from
+   * `db.forUser()` only see and change their own rows.
+   */
+  ownerField?: string;
 }
 
+/**
+ * Column definition keyed by name, used by `defineSchema`
+ */
+export interface ColumnDefinition {
+  type: ColumnType;
+  required?: boolean;
+  unique?: boolean;
+  default?: unknown;
+  /** Index a string column for `db.search()` */
+  searchable?: boolean;
+}
+
+/**
+ * Columns of a single collection, keyed by column name
+ */
+export type CollectionDefinition = Record<string, ColumnDefinition>;
+
+/**
+ * Collection definitions keyed by collection name
+ */
+export type DatabaseSchema = Record<string, CollectionDefinition>;
+
+/**
+ * TypeScript type of a column's values
+ */
+export type ColumnValue<C extends ColumnDefinition> = C['type'] extends 'string'
+  ? string
+  : C['type'] extends 'number'
+    ? number
+    : C['type'] extends 'boolean'
+      ? boolean
+      : C['type'] extends 'datetime'
+        ? string
+        : unknown;
+
+type RequiredColumnKeys<C extends CollectionDefinition> = {
+  [K in keyof C]: C[K]['required'] extends true ? K : never;
+}[keyof C];
+
+type InsertRequiredKeys<C extends CollectionDefinition> = {
+  [K in keyof C]: C[K]['required'] extends true
+    ? C[K] extends { default: unknown }
+      ? never
+      : K
+    : never;
+}[keyof C];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Record type stored in a collection, inferred from its definition
+ */
+export type InferRecord<C extends CollectionDefinition> = BaseRecord &
+  Simplify<
+    { [K in RequiredColumnKeys<C>]: ColumnValue<C[K]> } & {
+      [K in Exclude<keyof C, RequiredColumnKeys<C>>]?: ColumnValue<C[K]> | null;
+    }
+  >;
+
+/**
+ * Input accepted when inserting into a collection, inferred from its definition
+ *
+ * Required columns without a default must be provided.
+ */
+export type InferInsert<C extends CollectionDefinition> = Simplify<
+  { [K in InsertRequiredKeys<C>]: ColumnValue<C[K]> } & {
+    [K in Exclude<keyof C, InsertRequiredKeys<C>>]?: ColumnValue<C[K]> | null;
+  } & { id?: string }
+>;
+
 /**
  * Table information from the database
  */
 export interface TableInfo {
   name: string;
   columns: TableColumn[];
+  relations?: Record<string, RelationDefinition>;
+  audit?: boolean;
+  ownerField?: string;
   rowCount: number;
   createdAt: string;
 }
 
+/**
+ * Comparison operators for a single field in a where clause
+ */
+export interface FilterOperators<V = unknown> {
+  $eq?: V;
+  $ne?: V;
+  $gt?: V;
+  $gte?: V;
+  $lt?: V;
+  $lte?: V;
+  $in?: V[];
+  $nin?: V[];
+  /** SQL LIKE pattern (`%` and `_` wildcards), case-sensitive */
+  $like?: string;
+  /** SQL LIKE pattern (`%` and `_` wildcards), case-insensitive */
+  $ilike?: string;
+  /** true matches null/missing values, false matches non-null values */
+  $isNull?: boolean;
+}
+
+/**
+ * Filter for a single field: a plain value (equality) or operators
+ */
+export type FieldFilter<V = unknown> = V | FilterOperators<V>;
+
+/**
+ * Typed where clause
+ *
+ * Keys are column names, or dot-separated paths into `json` columns
+ * (e.g. `'metadata.color'`). Clauses can be nested with `$and`, `$or`
+ * and `$not`.
+ *
+ * @example
+ * ```typescript
+ * const where: WhereClause<Product> = {
+ *   isActive: true,
+ *   stock: { $lte: 10 },
+ *   $or: [{ category: 'shirts' }, { 'metadata.color': { $in: ['red', 'blue'] } }],
+ * };
+ * ```
+ */
+export type WhereClause<T = Record<string, unknown>> = {
+  [K in keyof T & string]?: FieldFilter<T[K]>;
+} & {
+  [path: `${string}.${string}`]: FieldFilter | undefined;
+} & {
+  $and?: WhereClause<T>[];
+  $or?: WhereClause<T>[];
+  $not?: WhereClause<T>;
+};
+
+/**
+ * A single schema change applied by `alterTable`
+ */
+export type AlterTableOperation =
+  | { type: 'addColumn'; column: TableColumn }
+  | { type: 'dropColumn'; name: string }
+  | { type: 'renameColumn'; from: string; to: string }
+  | { type: 'setDefault'; name: string; default: unknown }
+  | { type: 'dropDefault'; name: string }
+  | { type: 'addUnique'; name: string }
+  | { type: 'setAudit'; enabled: boolean }
+  | { type: 'setOwnerField'; field: string | null };
+
+/**
+ * Difference between a declared table schema and the live table
+ */
+export interface SchemaDiff {
+  table: string;
+  /** The table does not exist yet and would be created */
+  create: boolean;
+  /** Operations that would bring the live table in line with the declaration */
+  operations: AlterTableOperation[];
+  /** Differences that `alterTable` cannot apply (e.g. column type changes) */
+  warnings: string[];
+}
+
+/**
+ * Migration recorded as applied in the project
+ */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+/**
+ * How to load one included relation
+ */
+export interface IncludeOptions {
+  /** Columns to return for the related rows (`id` is always returned) */
+  select?: string[];
+  /** Only include related rows matching this filter */
+  where?: WhereClause;
+  orderBy?: string;
+  orderDirection?: 'asc' | 'desc';
+  /** Maximum related rows per parent row, for `hasMany` relations */
+  limit?: number;
+}
+
+/**
+ * Relations to load with each row, by the name they are returned under
+ *
+ * `true` loads a relation declared in the table's schema. An object with
+ * `type`, `collection` and `foreignKey` defines the relation inline.
+ */
+export type IncludeClause = Record<
+  string,
+  true | IncludeOptions | (RelationDefinition & IncludeOptions)
+>;
+
 /**
  * Query options for database operations
  */
-export interface QueryOptions {
+export interface QueryOptions<T = Record<string, unknown>> {
   limit?: number;
   offset?: number;
   orderBy?: string;
   orderDirection?: 'asc' | 'desc';
-  where?: Record<string, unknown>;
+  where?: WhereClause<T>;
+  /** Columns to return (`id` is always returned); all columns when omitted */
+  select?: (keyof T & string)[];
+  /** Related rows to load in the same request */
+  include?: IncludeClause;
+  /**
+   * In soft-delete collections, also return deleted rows, or `'only'` to
+   * return just the deleted ones
+   */
+  includeDeleted?: boolean | 'only';
+  /** Set to false to bypass the client-side cache for this read */
+  cache?: boolean;
+}
+
+/**
+ * Options for counting documents
+ */
+export interface CountOptions {
+  /** In soft-delete collections, also count deleted documents, or only them */
+  includeDeleted?: boolean | 'only';
+  /** Set to false to bypass the client-side cache for this read */
+  cache?: boolean;
+}
+
+/**
+ * Options for reading a single document
+ */
+export interface GetOptions<T = Record<string, unknown>> {
+  /** Columns to return (`id` is always returned); all columns when omitted */
+  select?: (keyof T & string)[];
+  /** Related rows to load in the same request */
+  include?: IncludeClause;
+  /** In soft-delete collections, also return the document if it was deleted */
+  includeDeleted?: boolean;
+  /** Set to false to bypass the client-side cache for this read */
+  cache?: boolean;
+}
+
+/**
+ * Options for cursor (keyset) pagination
+ *
+ * Rows are ordered by `orderBy` (default `created_at`) with `id` as a
+ * tie-breaker, so pages stay stable while data changes.
+ */
+export interface CursorQueryOptions<T = Record<string, unknown>>
+  extends Omit<QueryOptions<T>, 'offset'> {
+  /** Cursor returned as `nextCursor` by the previous page; omit for the first page */
+  cursor?: string | null;
+}
+
+/**
+ * A page of results from cursor pagination
+ */
+export interface CursorPage<T> {
+  data: T[];
+  /** Cursor for the next page, or null when there are no more rows */
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * Options for iterating over a whole collection
+ */
+export interface IterateOptions<T = Record<string, unknown>>
+  extends Omit<CursorQueryOptions<T>, 'limit'> {
+  /** Rows fetched per request (default: 100) */
+  pageSize?: number;
+}
+
+/**
+ * Metrics computed by `db.aggregate()`, each over the listed fields
+ */
+export interface AggregateMetrics<T = Record<string, unknown>> {
+  /** Count the rows in each group */
+  count?: boolean;
+  sum?: (keyof T & string)[];
+  avg?: (keyof T & string)[];
+  min?: (keyof T & string)[];
+  max?: (keyof T & string)[];
+}
+
+/**
+ * Options for `db.aggregate()`
+ */
+export interface AggregateOptions<T = Record<string, unknown>> {
+  where?: WhereClause<T>;
+  /** Fields to group by; a single group when omitted */
+  groupBy?: (keyof T & string)[];
+  metrics: AggregateMetrics<T>;
+  /** Also group by a date field truncated to an interval (UTC; weeks start on Monday) */
+  timeBucket?: {
+    field: keyof T & string;
+    interval: 'hour' | 'day' | 'week' | 'month' | 'year';
+  };
+  /** A group field, `bucket`, `count`, or a metric such as `sum.total` */
+  orderBy?: string;
+  orderDirection?: 'asc' | 'desc';
+  /** Maximum number of groups */
+  limit?: number;
+  /** In soft-delete collections, also count deleted rows, or only them */
+  includeDeleted?: boolean | 'only';
+  /** Set to false to bypass the client-side cache for this read */
+  cache?: boolean;
+}
+
+/**
+ * One group returned by `db.aggregate()`
+ *
+ * Only the requested metrics are present. Sums over no rows are 0; averages,
+ * minimums and maximums over no rows are null.
+ */
+export interface AggregateRow {
+  /** Values of the `groupBy` fields */
+  group: Record<string, unknown>;
+  /** Start of the time bucket as an ISO 8601 string, with `timeBucket` */
+  bucket?: string;
+  count?: number;
+  sum?: Record<string, number>;
+  avg?: Record<string, number | null>;
+  min?: Record<string, unknown>;
+  max?: Record<string, unknown>;
+}
+
+/**
+ * Options for `db.search()`
+ */
+export interface SearchOptions<T = Record<string, unknown>> {
+  /**
+   * Fields to search, most important first; defaults to the columns
+   * declared `searchable`, or every string column when none are
+   */
+  fields?: (keyof T & string)[];
+  /** Only search rows matching this filter */
+  where?: WhereClause<T>;
+  /** Maximum number of results (default: 20) */
+  limit?: number;
+  /** Wrap matched words in `<mark>` tags, or in custom tags */
+  highlight?: boolean | { pre: string; post: string };
+  /** Match words with small typos (default: true) */
+  typoTolerance?: boolean;
+  /** In soft-delete collections, also search deleted rows, or only them */
+  includeDeleted?: boolean | 'only';
+  /** Set to false to bypass the client-side cache for this read */
+  cache?: boolean;
+}
+
+/**
+ * File formats supported by `exportCollection` and `importCollection`
+ */
+export type TransferFormat = 'json' | 'ndjson' | 'csv';
+
+/**
+ * Options for `db.exportCollection()`
+ */
+export interface ExportOptions<T = Record<string, unknown>> {
+  /** Output format (default: `'json'`) */
+  format?: TransferFormat;
+  where?: WhereClause<T>;
+  orderBy?: string;
+  orderDirection?: 'asc' | 'desc';
+  /**
+   * Fields to export, in order; defaults to every column of the table, or
+   * to the fields of the first row for tables without declared columns
+   */
+  columns?: (keyof T & string)[];
+  /** In soft-delete collections, also export deleted rows, or only them */
+  includeDeleted?: boolean | 'only';
+  /** Rows fetched per request (default: 500) */
+  pageSize?: number;
+  /**
+   * Prefix CSV text starting with `=`, `+`, `-`, `@`, a tab or a carriage
+   * return with `'`, so spreadsheet apps do not run it as a formula (default: true)
+   */
+  escapeFormulas?: boolean;
+}
+
+/**
+ * Progress reported by `db.importCollection()` after each batch
+ */
+export interface ImportProgress {
+  /** Rows read from the source so far */
+  processed: number;
+  imported: number;
+  failed: number;
+}
+
+/**
+ * Options for `db.importCollection()`
+ */
+export interface ImportOptions {
+  /** Source format (default: `'json'`) */
+  format?: TransferFormat;
+  /** Insert every row, or update rows that already exist (default: `'insert'`) */
+  mode?: 'insert' | 'upsert';
+  /** Column(s) identifying an existing row in `upsert` mode (default: `'id'`) */
+  conflictKey?: string | string[];
+  /** Rows written per request (default: 500) */
+  batchSize?: number;
+  /**
+   * Remove the `'` that CSV exports put before text read as a formula, so
+   * exported values import unchanged (default: true)
+   */
+  unescapeFormulas?: boolean;
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+/**
+ * A row that could not be imported
+ */
+export interface ImportRowError {
+  /** Position of the row in the source, starting at 1 (CSV headers are not counted) */
+  row: number;
+  message: string;
+  /** Column-level problems found by validation */
+  issues?: ValidationIssue[];
+}
+
+/**
+ * Outcome of `db.importCollection()`
+ */
+export interface ImportResult {
+  imported: number;
+  failed: number;
+  errors: ImportRowError[];
+}
+
+/**
+ * One recorded change to a row of an audited table
+ */
+export interface AuditEntry<T = Record<string, unknown>> {
+  id: string;
+  collection: string;
+  recordId: string;
+  operation: 'insert' | 'update' | 'delete';
+  /** The row before the change; null for inserts */
+  before: T | null;
+  /** The row after the change; null for deletes */
+  after: T | null;
+  /** Changed fields with their previous and new values */
+  diff: Record<string, { before: unknown; after: unknown }>;
+  /** ID of the user who made the change (see `db.withActor()`), if known */
+  actor: string | null;
+  timestamp: string;
+}
+
+/**
+ * Filters for `db.auditLog()`
+ */
+export interface AuditLogOptions {
+  /** Only changes at or after this time */
+  since?: string | Date;
+  /** Only changes before this time */
+  until?: string | Date;
+  /** Only changes made by this user ID */
+  actor?: string;
+  collection?: string;
+  operation?: AuditEntry['operation'];
+  /** Entries per page (default: 100) */
+  limit?: number;
+  /** Cursor returned as `nextCursor` by the previous page */
+  cursor?: string | null;
+}
+
+/**
+ * A single search result
+ */
+export interface SearchHit<T> {
+  record: T;
+  /** Relevance; higher is better. Only comparable within one search */
+  score: number;
+  /**
+   * Matching fields with matched words wrapped in highlight tags, with
+   * `highlight`. Field values are HTML-escaped; the tags are inserted as given.
+   */
+  highlights?: Partial<Record<keyof T & string, string>>;
+}
+
+/**
+ * Outcome of a single row in a bulk operation
+ */
+export interface BulkRowResult<T> {
+  /** Position of the row in the request (or in the matched set for where-based operations) */
+  index: number;
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Result of a bulk operation
+ */
+export interface BulkResult<T> {
+  /** Rows that were written (or deleted) successfully */
+  data: T[];
+  /** Per-row outcome, in request order */
+  results: BulkRowResult<T>[];
+  successCount: number;
+  errorCount: number;
+}
+
+/**
+ * Options for writing a key-value pair
+ */
+export interface KVSetOptions {
+  /** Delete the key after this many seconds; omit to keep it forever */
+  ttlSeconds?: number;
+}
+
+/**
+ * A key-value pair with its metadata
+ */
+export interface KVEntry<T = unknown> {
+  key: string;
+  value: T;
+  /** Incremented on every write; used by `compareAndSetKV` */
+  version: number;
+  /** When the key expires, or null if it never does */
+  expiresAt: string | null;
+}
+
+/**
+ * Result of `compareAndSetKV`
+ */
+export interface KVCompareAndSetResult {
+  /** Whether the value was written */
+  swapped: boolean;
+  /** Version after the call; the current version when not swapped (0 if the key does not exist) */
+  version: number;
+}
+
+/**
+ * Options for listing keys
+ */
+export interface KVListOptions {
+  /** Only list keys starting with this prefix, e.g. `'session:'` */
+  prefix?: string;
+  /** Cursor returned as `nextCursor` by the previous page */
+  cursor?: string | null;
+  /** Keys per page (default: 100) */
+  limit?: number;
+}
+
+/**
+ * A table captured by `db.createSnapshot()`
+ */
+export interface SnapshotTable {
+  name: string;
+  schema: TableSchema;
+  /** Every row, including soft-deleted ones */
+  rows: BaseRecord[];
+}
+
+/**
+ * A key-value pair captured by `db.createSnapshot()`
+ */
+export interface SnapshotKVEntry {
+  key: string;
+  value: unknown;
+  /** When the key expires, or null if it never does */
+  expiresAt: string | null;
+}
+
+/**
+ * A whole project: table schemas, rows and the key-value store
+ *
+ * Plain JSON, so it can be written to a file and restored into another project.
+ */
+export interface ProjectSnapshot {
+  /** Archive format version */
+  version: 1;
+  /** Project the snapshot was taken from */
+  projectId: string;
+  createdAt: string;
+  tables: SnapshotTable[];
+  kv: SnapshotKVEntry[];
+}
+
+/**
+ * Options for `db.createSnapshot()`
+ */
+export interface CreateSnapshotOptions {
+  /** Only capture these tables (default: all) */
+  tables?: string[];
+  /** Capture the key-value store (default: true) */
+  kv?: boolean;
+}
+
+/**
+ * Options for `db.restoreSnapshot()`
+ */
+export interface RestoreSnapshotOptions {
+  /** Only restore these tables (default: every table in the snapshot) */
+  tables?: string[];
+  /**
+   * Drop tables that already exist before recreating them. Without it,
+   * restoring a table that exists fails before anything is written.
+   */
+  dropExisting?: boolean;
+  /** Restore the key-value store (default: true) */
+  kv?: boolean;
+  /** Rows written per request (default: 500) */
+  batchSize?: number;
+}
+
+/**
+ * Outcome of `db.restoreSnapshot()`
+ */
+export interface RestoreSnapshotResult {
+  /** Tables created */
+  tables: string[];
+  /** Rows written across all tables */
+  rows: number;
+  /** Keys written; expired keys are skipped */
+  kvEntries: number;
 }
 
 /**
@@ -112,11 +923,16 @@ export interface BaseRecord {
   [key: string]: unknown;
 }
 
+/**
+ * Kind of change delivered by a real-time subscription
+ */
+export type RealtimeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
 /**
  * Real-time subscription payload
  */
 export interface RealtimePayload<T = BaseRecord> {
-  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  eventType: RealtimeEvent;
   new: T | null;
   old: T | null;
   table: string;
@@ -129,6 +945,64 @@ export interface Subscription {
   unsubscribe: () => void;
 }
 
+/**
+ * Connection status of a realtime channel
+ */
+export type RealtimeStatus = 'connecting' | 'open' | 'closed' | 'error';
+
+/**
+ * Handle returned by `db.subscribe()`
+ */
+export interface RealtimeSubscription extends Subscription {
+  /** Current status of the collection's channel */
+  readonly status: RealtimeStatus;
+  /**
+   * Listen to status changes
+   *
+   * @returns A function that removes the listener
+   */
+  onStatusChange: (callback: (status: RealtimeStatus, error?: Error) => void) => () => void;
+}
+
+/**
+ * A user present on a realtime channel
+ */
+export interface PresenceMember<M = Record<string, unknown>> {
+  userId: string;
+  name: string | null;
+  avatarUrl: string | null;
+  /** Custom state shared with other members, e.g. a cursor position */
+  meta: M;
+  /** When the member started tracking presence */
+  onlineAt: string;
+}
+
+/**
+ * Realtime channel options
+ */
+export interface ChannelOptions {
+  /** Also receive this client's own broadcasts (default: false) */
+  self?: boolean;
+}
+
+/**
+ * Filters for a realtime subscription
+ */
+export interface SubscribeOptions<T = Record<string, unknown>> {
+  /** Only deliver these events (default: all) */
+  event?: RealtimeEvent | RealtimeEvent[];
+  /**
+   * Only deliver changes to matching rows. An update is delivered when the
+   * row matches before or after the change.
+   */
+  where?: WhereClause<T>;
+  /**
+   * In soft-delete collections, deliver raw events. By default a soft
+   * delete is delivered as a DELETE and a restore as an INSERT.
+   */
+  includeDeleted?: boolean;
+}
+
 // ============================================================================
 // Authentication Types
 // ============================================================================
@@ -238,6 +1112,130 @@ export interface ConnectStatus {
   payoutsEnabled?: boolean;
 }
 
+// ============================================================================
+// Storage Types
+// ============================================================================
+
+/**
+ * Bucket settings
+ */
+export interface BucketOptions {
+  /** Anyone with a file's URL can read it; otherwise use a signed URL (default: false) */
+  public?: boolean;
+}
+
+/**
+ * Storage bucket
+ */
+export interface BucketInfo {
+  name: string;
+  public: boolean;
+  createdAt: string;
+}
+
+/**
+ * File contents to upload: a Blob or File, a Buffer or other bytes, or a
+ * stream such as a fetch response body or a Node.js read stream
+ */
+export type UploadSource =
+  | Blob
+  | ArrayBuffer
+  | Uint8Array
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+/**
+ * Progress of an upload, reported after each chunk
+ */
+export interface UploadProgress {
+  /** Pass as `uploadId` to resume the upload after a failure */
+  uploadId: string;
+  /** Bytes stored on the server */
+  loaded: number;
+  /** File size, or null for a stream of unknown length */
+  total: number | null;
+}
+
+/**
+ * File upload options
+ */
+export interface UploadOptions {
+  /** MIME type (default: the Blob's type, or `application/octet-stream`) */
+  contentType?: string;
+  /** Alternative text stored on the Media row */
+  alt?: string;
+  /** Replace an existing file at the same path (default: false) */
+  upsert?: boolean;
+  /** Bytes sent per request (default: 5 MiB) */
+  chunkSize?: number;
+  /** Resume an interrupted upload; bytes already stored are skipped */
+  uploadId?: string;
+  onProgress?: (progress: UploadProgress) => void;
+  /** Stops the upload; it can be resumed later with its `uploadId` */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for listing files in a bucket
+ */
+export interface ListFilesOptions {
+  /** Only files whose path starts with this */
+  prefix?: string;
+  limit?: number;
+  /** `nextCursor` from the previous page */
+  cursor?: string | null;
+}
+
+/**
+ * Options for a signed URL
+ */
+export interface SignedUrlOptions {
+  /** Seconds until the URL stops working (default: 3600) */
+  expiresIn?: number;
+}
+
+/**
+ * Time-limited URL for reading a file
+ */
+export interface SignedUrl {
+  url: string;
+  expiresAt: string;
+}
+
+/**
+ * Options for a signed upload URL
+ */
+export interface SignedUploadOptions extends SignedUrlOptions {
+  /** MIME type (default: `application/octet-stream`) */
+  contentType?: string;
+  /** Alternative text stored on the Media row */
+  alt?: string;
+  /** Replace an existing file at the same path (default: false) */
+  upsert?: boolean;
+  /** File size in bytes; uploads of any other size are rejected */
+  size?: number;
+}
+
+/**
+ * Time-limited URL for uploading one file, from `createUploadUrl()`
+ */
+export interface SignedUpload {
+  url: string;
+  uploadId: string;
+  expiresAt: string;
+}
+
+/**
+ * Options for `VlibeBaseStorage.uploadToUrl()`
+ */
+export interface UploadToUrlOptions
+  extends Pick<UploadOptions, 'chunkSize' | 'onProgress' | 'signal'> {
+  /** Transport used for the requests (custom fetch, middleware) */
+  transport?: VlibeBaseTransport;
+  /** Retry policy for transient failures, or false to disable retries */
+  retry?: RetryPolicy | false;
+}
+
 // ============================================================================
 // Category-Specific Types
 // ============================================================================
@@ -262,6 +1260,9 @@ export interface Media {
   mimeType: string;
   size: number;
   alt?: string;
+  /** Bucket and path of a file uploaded with VlibeBaseStorage */
+  bucket?: string;
+  path?: string;
   createdAt: string;
 }
 
@@ -438,6 +1439,18 @@ export interface PaginatedResponse<T = unknown> {
   hasMore: boolean;
 }
 
+/**
+ * Cursor-paginated API response
+ */
+export interface CursorPaginatedResponse<T = unknown> {
+  success: boolean;
+  data: T[];
+  limit: number;
+  hasMore: boolean;
+  /** Cursor for the next page, or null when there are no more rows */
+  nextCursor: string | null;
+}
+
 // ============================================================================
 // React Hook Types
 // ============================================================================
@@ -445,11 +1458,11 @@ export interface PaginatedResponse<T = unknown> {
 /**
  * Options for useCollection hook
  */
-export interface UseCollectionOptions {
+export interface UseCollectionOptions<T = Record<string, unknown>> {
   limit?: number;
   orderBy?: string;
   orderDirection?: 'asc' | 'desc';
-  where?: Record<string, unknown>;
+  where?: WhereClause<T>;
   realtime?: boolean;
 }
 
@@ -460,6 +1473,8 @@ export interface UseCollectionReturn<T = BaseRecord> {
   data: T[];
   loading: boolean;
   error: Error | null;
+  /** Realtime connection status, or null when `realtime` is off */
+  connectionStatus: RealtimeStatus | null;
   refresh: () => Promise<void>;
   insert: (doc: Partial<T>) => Promise<T | null>;
   update: (id: string, updates: Partial<T>) => Promise<T | null>;